@@ -0,0 +1,97 @@
+// Messages between the task pane and the sandboxed renderer frame.
+// The task pane posts a render request; the frame answers with the SVG or a structured error
+// carrying the parser details the editor turns into diagnostics. The frame has an opaque origin,
+// so replies are checked by source window rather than origin.
+
+import type { MermaidConfig } from 'mermaid';
+
+export interface RenderRequest {
+  type: 'render';
+  requestId: number;
+  code: string;
+  config: MermaidConfig;
+}
+
+// The parts of a Mermaid parse error that survive postMessage: the Jison hash, or the
+// Langium lexer and parser errors without their token type objects
+export interface RenderErrorData {
+  name: string;
+  message: string;
+  hash?: {
+    text?: string;
+    token?: string | number | null;
+    line?: number;
+    loc?: { first_line: number, last_line: number, first_column: number, last_column: number };
+    expected?: string[];
+  };
+  result?: {
+    lexerErrors: { line?: number, column?: number, length?: number, message: string }[];
+    parserErrors: {
+      name: string;
+      message: string;
+      token: { image?: string, startLine?: number, startColumn?: number, endLine?: number, endColumn?: number };
+    }[];
+  };
+}
+
+export type RendererMessage =
+  | { type: 'ready' }
+  | { type: 'rendered', requestId: number, svg: string }
+  | { type: 'error', requestId: number, error: RenderErrorData };
+
+export const serializeRenderError = (error: unknown): RenderErrorData => {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error || 'Failed to render diagram') };
+  }
+
+  const details = error as Error & { hash?: any, result?: any };
+  const data: RenderErrorData = { name: error.name, message: error.message };
+
+  if (details.hash && typeof details.hash === 'object') {
+    const { text, token, line, loc, expected } = details.hash;
+    data.hash = {
+      text,
+      token: typeof token === 'string' || typeof token === 'number' ? token : null,
+      line,
+      loc: loc ? { first_line: loc.first_line, last_line: loc.last_line, first_column: loc.first_column, last_column: loc.last_column } : undefined,
+      expected: Array.isArray(expected) ? expected.map(String) : undefined
+    };
+  }
+
+  if (details.result && Array.isArray(details.result.lexerErrors) && Array.isArray(details.result.parserErrors)) {
+    data.result = {
+      lexerErrors: details.result.lexerErrors.map((lexerError: any) => ({
+        line: lexerError.line,
+        column: lexerError.column,
+        length: lexerError.length,
+        message: String(lexerError.message)
+      })),
+      parserErrors: details.result.parserErrors.map((parserError: any) => ({
+        name: String(parserError.name),
+        message: String(parserError.message),
+        token: {
+          image: parserError.token?.image,
+          startLine: parserError.token?.startLine,
+          startColumn: parserError.token?.startColumn,
+          endLine: parserError.token?.endLine,
+          endColumn: parserError.token?.endColumn
+        }
+      }))
+    };
+  }
+
+  return data;
+};
+
+// Rebuild an Error shaped like the one Mermaid threw, so diagnostics read it the same way
+export const deserializeRenderError = (data: RenderErrorData): Error => {
+  const error = new Error(data.message) as Error & { hash?: unknown, result?: unknown };
+  error.name = data.name;
+  if (data.hash) {
+    error.hash = data.hash;
+  }
+  if (data.result) {
+    error.result = data.result;
+  }
+  return error;
+};
@@ -0,0 +1,54 @@
+import mermaid from 'mermaid';
+import { RenderRequest, RendererMessage, serializeRenderError } from './renderProtocol';
+
+// Runs inside a sandboxed iframe without allow-same-origin, so diagram content - HTML labels,
+// click callbacks in loose mode - can't reach the add-in's origin, Office.js or its storage
+
+let appliedConfig = '';
+
+const reply = (message: RendererMessage) => {
+  window.parent.postMessage(message, '*');
+};
+
+// In the sandbox security level Mermaid wraps the diagram in an <iframe> whose source is a
+// base64 data URL; the task pane needs the SVG itself to preview and insert it
+const unwrapSandboxedSvg = (output: string): string => {
+  const source = output.match(/^\s*<iframe[^>]*\ssrc="data:text\/html;charset=UTF-8;base64,([^"]+)"/i);
+  if (!source) {
+    return output;
+  }
+  const bytes = Uint8Array.from(atob(source[1]), character => character.charCodeAt(0));
+  const html = new TextDecoder().decode(bytes);
+  const svg = html.match(/<svg[\s\S]*<\/svg>/i);
+  if (!svg) {
+    throw new Error('Mermaid returned a sandboxed diagram without an SVG');
+  }
+  return svg[0];
+};
+
+const render = async (request: RenderRequest) => {
+  try {
+    // Re-initialize only when the settings changed since the last request
+    const config = JSON.stringify(request.config);
+    if (config !== appliedConfig) {
+      mermaid.initialize({ ...request.config, startOnLoad: false });
+      appliedConfig = config;
+    }
+
+    // Parse first so syntax errors carry their location
+    await mermaid.parse(request.code);
+    const { svg } = await mermaid.render(`mermaid-render-${request.requestId}`, request.code);
+    reply({ type: 'rendered', requestId: request.requestId, svg: unwrapSandboxedSvg(svg) });
+  } catch (error) {
+    reply({ type: 'error', requestId: request.requestId, error: serializeRenderError(error) });
+  }
+};
+
+window.addEventListener('message', (event: MessageEvent) => {
+  if (event.source !== window.parent || !event.data || event.data.type !== 'render') {
+    return;
+  }
+  render(event.data as RenderRequest);
+});
+
+reply({ type: 'ready' });
@@ -0,0 +1,200 @@
+import * as React from 'react';
+import { forwardRef, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { basicSetup } from 'codemirror';
+import { EditorView, keymap, placeholder as placeholderExtension } from '@codemirror/view';
+import { EditorState, Prec, Text } from '@codemirror/state';
+import { indentUnit } from '@codemirror/language';
+import { indentWithTab } from '@codemirror/commands';
+import { Diagnostic, lintGutter, setDiagnostics } from '@codemirror/lint';
+import { mermaid } from '../utils/mermaidLanguage';
+import { MermaidDiagnostic, describeDiagnostic } from '../utils/mermaidDiagnostics';
+import { snippetInsertion } from '../utils/snippetLibrary';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onRender: () => void; // Ctrl+Enter
+  onInsert: () => void; // Ctrl+Shift+Enter
+  diagnostics?: MermaidDiagnostic[]; // From the last render, cleared when the code is replaced from outside
+  placeholder?: string;
+}
+
+// Editor actions the snippet library needs, which work on the selection rather than the value
+export interface CodeEditorHandle {
+  getSelection: () => string;
+  insertSnippet: (code: string) => void; // At the cursor, replacing any selection
+}
+
+const editorTheme = EditorView.theme({
+  '&': {
+    height: '100%',
+    fontSize: '12px',
+    border: '1px solid #ccc',
+    borderRadius: '3px',
+    backgroundColor: 'white'
+  },
+  '&.cm-focused': {
+    outline: '1px solid #0078d4'
+  },
+  '.cm-scroller': {
+    fontFamily: 'Consolas, Monaco, monospace'
+  }
+});
+
+// Document range of a diagnostic - the token when its end is known, otherwise the rest of the line
+const diagnosticRange = (doc: Text, diagnostic: MermaidDiagnostic): { from: number, to: number } => {
+  const line = doc.line(Math.min(Math.max(diagnostic.line || 1, 1), doc.lines));
+  const from = Math.min(line.from + diagnostic.column - 1, line.to);
+  const to = diagnostic.endColumn ? Math.min(line.from + diagnostic.endColumn - 1, line.to) : line.to;
+  return { from, to: Math.max(from, to) };
+};
+
+const toLintDiagnostics = (doc: Text, diagnostics: MermaidDiagnostic[]): Diagnostic[] => {
+  return diagnostics
+    .filter(diagnostic => diagnostic.line !== null)
+    .map(diagnostic => ({
+      ...diagnosticRange(doc, diagnostic),
+      severity: 'error',
+      source: 'mermaid',
+      message: describeDiagnostic(diagnostic, 10)
+    }));
+};
+
+const CodeEditor = forwardRef<CodeEditorHandle, CodeEditorProps>(({ value, onChange, onRender, onInsert, diagnostics, placeholder }, ref) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const viewRef = useRef<EditorView | null>(null);
+  const [problems, setProblems] = useState<MermaidDiagnostic[]>([]);
+
+  useImperativeHandle(ref, () => ({
+    getSelection: () => {
+      const view = viewRef.current;
+      if (!view) {
+        return '';
+      }
+      const { from, to } = view.state.selection.main;
+      return view.state.sliceDoc(from, to);
+    },
+    insertSnippet: (code: string) => {
+      const view = viewRef.current;
+      if (!view) {
+        return;
+      }
+      const { from, to } = view.state.selection.main;
+      const line = view.state.doc.lineAt(from);
+      const insert = snippetInsertion(code, line.text.slice(0, from - line.from));
+      view.dispatch({ changes: { from, to, insert }, selection: { anchor: from + insert.length }, scrollIntoView: true });
+      view.focus();
+    }
+  }), []);
+
+  // The view is created once, so its key bindings and listener reach the latest props through a ref
+  const propsRef = useRef({ onChange, onRender, onInsert });
+  propsRef.current = { onChange, onRender, onInsert };
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const view = new EditorView({
+      parent: containerRef.current,
+      state: EditorState.create({
+        doc: value,
+        extensions: [
+          Prec.highest(keymap.of([
+            { key: 'Mod-Enter', run: () => { propsRef.current.onRender(); return true; } },
+            { key: 'Mod-Shift-Enter', run: () => { propsRef.current.onInsert(); return true; } }
+          ])),
+          basicSetup,
+          keymap.of([indentWithTab]),
+          indentUnit.of('    '),
+          mermaid(),
+          lintGutter(),
+          editorTheme,
+          placeholderExtension(placeholder || ''),
+          EditorView.updateListener.of(update => {
+            if (update.docChanged) {
+              propsRef.current.onChange(update.state.doc.toString());
+            }
+          })
+        ]
+      })
+    });
+    viewRef.current = view;
+
+    return () => {
+      view.destroy();
+      viewRef.current = null;
+    };
+  }, []);
+
+  // Code set from outside (templates, history, data import) replaces the document,
+  // and problems found in the old code no longer apply
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view && view.state.doc.toString() !== value) {
+      view.dispatch({ changes: { from: 0, to: view.state.doc.length, insert: value } });
+      view.dispatch(setDiagnostics(view.state, []));
+      setProblems([]);
+    }
+  }, [value]);
+
+  // Runs after the value effect, so a new document and its problems can arrive together
+  useEffect(() => {
+    const view = viewRef.current;
+    if (view) {
+      view.dispatch(setDiagnostics(view.state, toLintDiagnostics(view.state.doc, diagnostics || [])));
+    }
+    setProblems(diagnostics || []);
+  }, [diagnostics]);
+
+  const goToProblem = (diagnostic: MermaidDiagnostic) => {
+    const view = viewRef.current;
+    if (!view || diagnostic.line === null) {
+      return;
+    }
+    const { from, to } = diagnosticRange(view.state.doc, diagnostic);
+    view.dispatch({ selection: { anchor: from, head: to }, scrollIntoView: true });
+    view.focus();
+  };
+
+  return (
+    <div style={{ marginBottom: '8px' }}>
+      <div ref={containerRef} style={{ height: '180px', resize: 'vertical', overflow: 'hidden' }} />
+
+      {/* Problems List */}
+      {problems.length > 0 && (
+        <div style={{
+          marginTop: '6px',
+          border: '1px solid #f44336',
+          borderRadius: '3px',
+          backgroundColor: '#ffebee',
+          fontSize: '12px',
+          maxHeight: '100px',
+          overflowY: 'auto'
+        }}>
+          {problems.map((problem, index) => (
+            <div
+              key={index}
+              onClick={() => goToProblem(problem)}
+              title={problem.line !== null ? 'Go to this problem' : undefined}
+              style={{
+                padding: '4px 8px',
+                color: '#c62828',
+                cursor: problem.line !== null ? 'pointer' : 'default',
+                borderTop: index > 0 ? '1px solid #f8c4c4' : 'none'
+              }}
+            >
+              ⛔ {problem.line !== null && (
+                <span style={{ fontWeight: 'bold' }}>Line {problem.line}:{problem.column} </span>
+              )}
+              {describeDiagnostic(problem)}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+});
+
+export default CodeEditor;
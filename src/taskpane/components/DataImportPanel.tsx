@@ -0,0 +1,308 @@
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { DataTemplate, DataColumnMapping, DataTable, dataTemplates, parseDelimitedText, toDataTable, guessColumnMapping, generateDiagramCode } from '../utils/dataImport';
+import { DataBinding } from '../utils/powerPointUtils';
+
+interface DataImportPanelProps {
+  canReadRange: boolean; // Excel only - other hosts import pasted text
+  initialBinding: DataBinding | null; // The link of the diagram being edited, to start from its data
+  onReadRange: () => Promise<{ address: string, cells: string[][] }>;
+  onReadBinding: (binding: DataBinding) => Promise<string[][]>;
+  onGenerate: (code: string, binding: DataBinding | null) => void;
+  onClose: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px',
+  border: '1px solid #edebe9',
+  borderRadius: '4px',
+  fontSize: '14px'
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  marginBottom: '4px',
+  fontSize: '13px',
+  fontWeight: '600',
+  color: '#323130'
+};
+
+// A mapping still fits when every required role points at an existing column
+const mappingFits = (columns: DataColumnMapping, table: DataTable, template: DataTemplate): boolean => {
+  return table.headers.length > 0 && dataTemplates[template].roles.every(({ role, optional }) => {
+    const column = columns[role];
+    return column === undefined ? !!optional : column < table.headers.length;
+  });
+};
+
+const DataImportPanel: React.FC<DataImportPanelProps> = ({ canReadRange, initialBinding, onReadRange, onReadBinding, onGenerate, onClose }) => {
+  const [source, setSource] = useState<'range' | 'paste'>(canReadRange && initialBinding?.source !== 'csv' ? 'range' : 'paste');
+  const [pastedText, setPastedText] = useState(initialBinding?.csv || '');
+  const [rangeAddress, setRangeAddress] = useState(initialBinding?.address || '');
+  const [cells, setCells] = useState<string[][]>(initialBinding?.csv ? parseDelimitedText(initialBinding.csv) : []);
+  const [hasHeaderRow, setHasHeaderRow] = useState(initialBinding ? initialBinding.hasHeaderRow : true);
+  const [template, setTemplate] = useState<DataTemplate>(initialBinding?.template || 'pie');
+  const [columns, setColumns] = useState<DataColumnMapping>(initialBinding?.columns || {});
+  const [title, setTitle] = useState(initialBinding?.title || '');
+  const [keepLinked, setKeepLinked] = useState(!!initialBinding);
+  const [isReading, setIsReading] = useState(false);
+  const [readError, setReadError] = useState('');
+
+  const table = useMemo(() => toDataTable(cells, hasHeaderRow), [cells, hasHeaderRow]);
+
+  // New data keeps the chosen columns while they still fit, otherwise starts from a guess
+  useEffect(() => {
+    if (!mappingFits(columns, table, template)) {
+      setColumns(guessColumnMapping(table, template));
+    }
+  }, [table]);
+
+  // A diagram linked to a range starts from the range's current cells
+  useEffect(() => {
+    if (initialBinding && initialBinding.source === 'range' && canReadRange) {
+      setIsReading(true);
+      onReadBinding(initialBinding)
+        .then(setCells)
+        .catch(error => setReadError(error instanceof Error ? error.message : 'Failed to read the linked range'))
+        .finally(() => setIsReading(false));
+    }
+  }, []);
+
+  const preview = useMemo(() => {
+    if (table.rows.length === 0) {
+      return { code: '', error: '' };
+    }
+    try {
+      return { code: generateDiagramCode(table, { template, columns, title }), error: '' };
+    } catch (error) {
+      return { code: '', error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [table, template, columns, title]);
+
+  const handleReadRange = async () => {
+    setIsReading(true);
+    setReadError('');
+    try {
+      const range = await onReadRange();
+      setRangeAddress(range.address);
+      setCells(range.cells);
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'Failed to read the selected range');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handlePaste = (text: string) => {
+    setPastedText(text);
+    setCells(parseDelimitedText(text));
+  };
+
+  const handleTemplateChange = (newTemplate: DataTemplate) => {
+    setTemplate(newTemplate);
+    setColumns(guessColumnMapping(table, newTemplate));
+  };
+
+  // Range links remember the range, CSV links embed the pasted text
+  const buildBinding = (): DataBinding => ({
+    source: source === 'range' ? 'range' : 'csv',
+    address: source === 'range' ? rangeAddress : undefined,
+    csv: source === 'paste' ? pastedText : undefined,
+    hasHeaderRow,
+    template,
+    columns,
+    title: title.trim() || undefined
+  });
+
+  const handleSourceChange = (newSource: 'range' | 'paste') => {
+    setSource(newSource);
+    setCells(newSource === 'paste' ? parseDelimitedText(pastedText) : []);
+    setRangeAddress('');
+    setReadError('');
+  };
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>📥 Import Data</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Data Source */}
+      {canReadRange && (
+        <div style={{ display: 'flex', gap: '8px', marginBottom: '12px' }}>
+          {(['range', 'paste'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => handleSourceChange(option)}
+              style={{
+                flex: '1',
+                padding: '8px',
+                border: source === option ? '2px solid #0078d4' : '1px solid #edebe9',
+                borderRadius: '4px',
+                background: source === option ? '#f3f9fd' : 'white',
+                color: '#323130',
+                cursor: 'pointer'
+              }}
+            >
+              {option === 'range' ? '📊 Selected range' : '📋 Pasted text'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {source === 'range' ? (
+        <div style={{ marginBottom: '12px' }}>
+          <button
+            onClick={handleReadRange}
+            disabled={isReading}
+            style={{
+              padding: '8px 16px',
+              border: 'none',
+              borderRadius: '4px',
+              background: '#0078d4',
+              color: 'white',
+              cursor: isReading ? 'not-allowed' : 'pointer'
+            }}
+          >
+            {isReading ? 'Reading...' : 'Read selected cells'}
+          </button>
+          {rangeAddress && (
+            <span style={{ marginLeft: '8px', fontSize: '12px', color: '#605e5c' }}>
+              {rangeAddress} • {table.rows.length} row(s)
+            </span>
+          )}
+          {readError && (
+            <div style={{ marginTop: '6px', fontSize: '12px', color: '#c62828' }}>{readError}</div>
+          )}
+        </div>
+      ) : (
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Paste CSV or tab-separated data</label>
+          <textarea
+            value={pastedText}
+            onChange={(e) => handlePaste(e.target.value)}
+            placeholder={'Category,Value\nApples,42\nOranges,17'}
+            style={{ ...fieldStyle, height: '100px', fontFamily: 'Consolas, Monaco, monospace', fontSize: '12px', resize: 'vertical' }}
+          />
+        </div>
+      )}
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '16px', fontSize: '13px', color: '#323130' }}>
+        <input type="checkbox" checked={hasHeaderRow} onChange={(e) => setHasHeaderRow(e.target.checked)} />
+        First row contains column names
+      </label>
+
+      {/* Template and Column Mapping */}
+      <div style={{ marginBottom: '12px' }}>
+        <label style={labelStyle}>Diagram</label>
+        <select value={template} onChange={(e) => handleTemplateChange(e.target.value as DataTemplate)} style={fieldStyle}>
+          {(Object.keys(dataTemplates) as DataTemplate[]).map(option => (
+            <option key={option} value={option}>{dataTemplates[option].name}</option>
+          ))}
+        </select>
+      </div>
+
+      {dataTemplates[template].roles.map(({ role, name, optional }) => (
+        <div key={role} style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>{name}{optional ? ' (optional)' : ''}</label>
+          <select
+            value={columns[role] === undefined ? '' : String(columns[role])}
+            onChange={(e) => setColumns({ ...columns, [role]: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+            disabled={table.headers.length === 0}
+            style={fieldStyle}
+          >
+            <option value="">{optional ? '(none)' : 'Choose a column'}</option>
+            {table.headers.map((header, index) => (
+              <option key={index} value={index}>{header}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      <div style={{ marginBottom: '16px' }}>
+        <label style={labelStyle}>Title (optional)</label>
+        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} style={fieldStyle} />
+      </div>
+
+      {/* Generated Code */}
+      {(preview.code || preview.error) && (
+        <div style={{ marginBottom: '12px' }}>
+          <label style={labelStyle}>Generated code</label>
+          {preview.error ? (
+            <div style={{ fontSize: '12px', color: '#c62828' }}>{preview.error}</div>
+          ) : (
+            <pre style={{
+              margin: 0,
+              padding: '8px',
+              maxHeight: '150px',
+              overflow: 'auto',
+              backgroundColor: '#f8f9fa',
+              border: '1px solid #edebe9',
+              borderRadius: '4px',
+              fontSize: '11px'
+            }}>
+              {preview.code}
+            </pre>
+          )}
+        </div>
+      )}
+
+      <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '4px', fontSize: '13px', color: '#323130' }}>
+        <input type="checkbox" checked={keepLinked} onChange={(e) => setKeepLinked(e.target.checked)} />
+        Keep the diagram linked to this data
+      </label>
+      <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '12px' }}>
+        {source === 'range'
+          ? '"Refresh linked diagrams" in the diagram list regenerates it from the range.'
+          : 'The data is saved with the diagram. Paste new data here when editing it to regenerate.'}
+      </div>
+
+      {/* Action Buttons */}
+      <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end', paddingTop: '20px', borderTop: '1px solid #edebe9' }}>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '10px 20px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            background: 'white',
+            color: '#323130',
+            cursor: 'pointer'
+          }}
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onGenerate(preview.code, keepLinked ? buildBinding() : null)}
+          disabled={!preview.code}
+          style={{
+            padding: '10px 20px',
+            border: 'none',
+            borderRadius: '4px',
+            background: preview.code ? '#0078d4' : '#ccc',
+            color: 'white',
+            cursor: preview.code ? 'pointer' : 'not-allowed',
+            fontWeight: '600'
+          }}
+        >
+          Use in Editor
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DataImportPanel;
@@ -0,0 +1,159 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import { DiagramRevision } from '../utils/powerPointUtils';
+import { diffLines } from '../utils/textDiff';
+
+interface DiagramHistoryProps {
+  revisions: DiagramRevision[]; // Oldest first, as stored
+  isRestoring: boolean;
+  onRestore: (revision: DiagramRevision) => void;
+  onClose: () => void;
+}
+
+const diffLineStyles = {
+  added: { backgroundColor: '#e6ffed', color: '#22863a', prefix: '+ ' },
+  removed: { backgroundColor: '#ffeef0', color: '#b31d28', prefix: '- ' },
+  unchanged: { backgroundColor: 'transparent', color: '#605e5c', prefix: '  ' }
+};
+
+const DiagramHistory: React.FC<DiagramHistoryProps> = ({ revisions, isRestoring, onRestore, onClose }) => {
+  const [selectedIndex, setSelectedIndex] = useState(revisions.length - 1);
+
+  useEffect(() => {
+    // Select the newest revision whenever the history is reloaded
+    setSelectedIndex(revisions.length - 1);
+  }, [revisions]);
+
+  const formatTimestamp = (timestamp: string) => {
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? 'Unknown time' : date.toLocaleString();
+  };
+
+  const currentIndex = revisions.length - 1;
+  const selectedRevision = revisions[selectedIndex];
+  const previousRevision = selectedIndex > 0 ? revisions[selectedIndex - 1] : null;
+  const diff = selectedRevision && previousRevision ? diffLines(previousRevision.code, selectedRevision.code) : [];
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>🕘 Diagram History</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>No history recorded for this diagram.</div>
+      ) : (
+        <>
+          {/* Revision List (newest first) */}
+          <div style={{ marginBottom: '20px', border: '1px solid #edebe9', borderRadius: '4px', maxHeight: '180px', overflowY: 'auto' }}>
+            {revisions.map((revision, index) => ({ revision, index })).reverse().map(({ revision, index }) => (
+              <div
+                key={`${revision.timestamp}-${index}`}
+                onClick={() => setSelectedIndex(index)}
+                style={{
+                  padding: '8px 12px',
+                  borderBottom: '1px solid #edebe9',
+                  cursor: 'pointer',
+                  backgroundColor: index === selectedIndex ? '#f3f2f1' : 'white',
+                  borderLeft: `3px solid ${index === selectedIndex ? '#0078d4' : 'transparent'}`
+                }}
+              >
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#323130' }}>
+                  {formatTimestamp(revision.timestamp)}
+                  {index === currentIndex && <span style={{ color: '#28a745', marginLeft: '6px' }}>(current)</span>}
+                </div>
+                {(revision.note || revision.author) && (
+                  <div style={{ fontSize: '12px', color: '#605e5c' }}>
+                    {revision.note}
+                    {revision.note && revision.author && ' — '}
+                    {revision.author}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Diff against the previous revision */}
+          <h3 style={{ color: '#323130', marginBottom: '10px', fontSize: '14px' }}>
+            {previousRevision ? 'Changes in this version' : 'Initial version'}
+          </h3>
+          <div style={{
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            fontFamily: 'Consolas, Monaco, monospace',
+            fontSize: '11px',
+            maxHeight: '220px',
+            overflow: 'auto',
+            marginBottom: '20px'
+          }}>
+            {previousRevision ? (
+              diff.map((line, index) => (
+                <div
+                  key={index}
+                  style={{
+                    whiteSpace: 'pre',
+                    padding: '0 8px',
+                    backgroundColor: diffLineStyles[line.type].backgroundColor,
+                    color: diffLineStyles[line.type].color
+                  }}
+                >
+                  {diffLineStyles[line.type].prefix}{line.text}
+                </div>
+              ))
+            ) : (
+              <div style={{ whiteSpace: 'pre', padding: '0 8px', color: '#323130' }}>
+                {selectedRevision?.code}
+              </div>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end', paddingTop: '20px', borderTop: '1px solid #edebe9' }}>
+            <button
+              onClick={onClose}
+              style={{
+                padding: '10px 20px',
+                border: '1px solid #edebe9',
+                borderRadius: '4px',
+                background: 'white',
+                color: '#323130',
+                cursor: 'pointer'
+              }}
+            >
+              Close
+            </button>
+            <button
+              onClick={() => selectedRevision && onRestore(selectedRevision)}
+              disabled={isRestoring || selectedIndex === currentIndex}
+              style={{
+                padding: '10px 20px',
+                border: 'none',
+                borderRadius: '4px',
+                background: isRestoring || selectedIndex === currentIndex ? '#ccc' : '#0078d4',
+                color: 'white',
+                cursor: isRestoring || selectedIndex === currentIndex ? 'not-allowed' : 'pointer',
+                fontWeight: '600'
+              }}
+            >
+              {isRestoring ? 'Restoring...' : '↩️ Restore this version'}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DiagramHistory;
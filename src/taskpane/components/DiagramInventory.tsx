@@ -0,0 +1,357 @@
+import * as React from 'react';
+import { useState, useEffect } from 'react';
+import { DiagramInventoryItem } from '../utils/powerPointUtils';
+import SvgImage from './SvgImage';
+
+// A diagram that could not be re-rendered, shown in the failure report
+export interface DiagramRerenderFailure {
+  id: string;
+  diagramType: string;
+  location: string;
+  error: string;
+}
+
+interface DiagramInventoryProps {
+  items: DiagramInventoryItem[];
+  isLoading: boolean;
+  rerenderProgress: { completed: number; total: number; label: string } | null; // Null when no re-render or refresh is running
+  rerenderFailures: DiagramRerenderFailure[];
+  renderThumbnail: (code: string) => Promise<string>;
+  onRefresh: () => void;
+  onJump: (item: DiagramInventoryItem) => void;
+  onEdit: (item: DiagramInventoryItem) => void;
+  onDuplicate: (item: DiagramInventoryItem) => void;
+  onDelete: (item: DiagramInventoryItem) => void;
+  onRepair: () => void;
+  onRerenderAll: () => void;
+  onRefreshLinked: () => void;
+  onInsertTableOfFigures?: () => void; // Word only
+  onClose: () => void;
+}
+
+const actionButtonStyle = (backgroundColor: string, disabled = false): React.CSSProperties => ({
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '3px',
+  backgroundColor: disabled ? '#ccc' : backgroundColor,
+  color: 'white',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '12px'
+});
+
+const DiagramInventory: React.FC<DiagramInventoryProps> = ({
+  items,
+  isLoading,
+  rerenderProgress,
+  rerenderFailures,
+  renderThumbnail,
+  onRefresh,
+  onJump,
+  onEdit,
+  onDuplicate,
+  onDelete,
+  onRepair,
+  onRerenderAll,
+  onRefreshLinked,
+  onInsertTableOfFigures,
+  onClose
+}) => {
+  const [thumbnails, setThumbnails] = useState<{ [diagramId: string]: string | null }>({});
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Mermaid can only render one diagram at a time, so build thumbnails one after another
+    const renderAll = async () => {
+      for (const item of items) {
+        if (cancelled) {
+          return;
+        }
+        try {
+          const svg = await renderThumbnail(item.code);
+          if (!cancelled) {
+            setThumbnails(previous => ({ ...previous, [item.id]: svg }));
+          }
+        } catch (error) {
+          console.log('Thumbnail render failed for diagram:', item.id, error);
+          if (!cancelled) {
+            setThumbnails(previous => ({ ...previous, [item.id]: null }));
+          }
+        }
+      }
+    };
+
+    setThumbnails({});
+    renderAll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items]);
+
+  const isRerendering = rerenderProgress !== null;
+  const isBusy = isLoading || isRerendering;
+
+  const formatTimestamp = (timestamp?: string) => {
+    if (!timestamp) {
+      return 'Unknown time';
+    }
+    const date = new Date(timestamp);
+    return isNaN(date.getTime()) ? 'Unknown time' : date.toLocaleString();
+  };
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>📚 Diagrams in this Document</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>Looking for diagrams...</div>
+      ) : items.length === 0 ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>No Mermaid diagrams found in this document.</div>
+      ) : (
+        <div style={{ border: '1px solid #edebe9', borderRadius: '4px' }}>
+          {items.map(item => (
+            <div
+              key={item.id}
+              style={{
+                display: 'flex',
+                gap: '12px',
+                padding: '10px 12px',
+                borderBottom: '1px solid #edebe9',
+                opacity: item.onCanvas ? 1 : 0.7
+              }}
+            >
+              {/* Thumbnail */}
+              <div style={{
+                width: '90px',
+                height: '60px',
+                flexShrink: 0,
+                border: '1px solid #edebe9',
+                borderRadius: '3px',
+                backgroundColor: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                overflow: 'hidden',
+                fontSize: '11px',
+                color: '#a19f9d'
+              }}>
+                {thumbnails[item.id] ? (
+                  <SvgImage
+                    svg={thumbnails[item.id]!}
+                    alt={`${item.diagramType} diagram`}
+                    style={{ width: '100%', height: '100%', maxWidth: '100%', objectFit: 'contain' }}
+                  />
+                ) : thumbnails[item.id] === null ? 'No preview' : '...'}
+              </div>
+
+              {/* Details and Actions */}
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#323130' }}>
+                  {item.diagramType}
+                  <span style={{ fontWeight: 'normal', color: item.onCanvas ? '#605e5c' : '#b31d28', marginLeft: '6px' }}>
+                    • {item.location}
+                  </span>
+                </div>
+                <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '6px' }}>
+                  Updated {formatTimestamp(item.updatedAt || item.createdAt)}
+                  {item.dataBinding && (
+                    <span title={item.dataBinding.address || 'Embedded data'} style={{ marginLeft: '6px' }}>• 🔗 Linked to data</span>
+                  )}
+                </div>
+
+                {pendingDeleteId === item.id ? (
+                  <div style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px', color: '#b31d28' }}>
+                    Delete this diagram?
+                    <button
+                      onClick={() => {
+                        setPendingDeleteId(null);
+                        onDelete(item);
+                      }}
+                      style={actionButtonStyle('#dc3545')}
+                    >
+                      Delete
+                    </button>
+                    <button onClick={() => setPendingDeleteId(null)} style={actionButtonStyle('#6c757d')}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap' }}>
+                    <button
+                      onClick={() => onJump(item)}
+                      disabled={!item.onCanvas}
+                      title="Select this diagram in the document"
+                      style={actionButtonStyle('#0078d4', !item.onCanvas)}
+                    >
+                      🎯 Go to
+                    </button>
+                    <button onClick={() => onEdit(item)} title="Open this diagram in the editor" style={actionButtonStyle('#28a745')}>
+                      📝 Edit
+                    </button>
+                    <button onClick={() => onDuplicate(item)} title="Insert a copy of this diagram" style={actionButtonStyle('#17a2b8')}>
+                      📄 Duplicate
+                    </button>
+                    <button onClick={() => setPendingDeleteId(item.id)} title="Delete this diagram" style={actionButtonStyle('#dc3545')}>
+                      🗑️ Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Re-render Progress */}
+      {isRerendering && (
+        <div style={{ marginTop: '20px' }}>
+          <div style={{ fontSize: '13px', color: '#323130', marginBottom: '6px' }}>
+            {rerenderProgress!.label}... {rerenderProgress!.completed} of {rerenderProgress!.total}
+          </div>
+          <div style={{ height: '8px', backgroundColor: '#edebe9', borderRadius: '4px', overflow: 'hidden' }}>
+            <div style={{
+              height: '100%',
+              width: `${rerenderProgress!.total > 0 ? (rerenderProgress!.completed / rerenderProgress!.total) * 100 : 0}%`,
+              backgroundColor: '#0078d4',
+              transition: 'width 0.2s'
+            }} />
+          </div>
+        </div>
+      )}
+
+      {/* Re-render Failure Report */}
+      {rerenderFailures.length > 0 && (
+        <div style={{
+          marginTop: '20px',
+          padding: '10px 12px',
+          border: '1px solid #f5c6cb',
+          borderRadius: '4px',
+          backgroundColor: '#f8d7da'
+        }}>
+          <div style={{ fontSize: '13px', fontWeight: '600', color: '#721c24', marginBottom: '6px' }}>
+            {rerenderFailures.length} diagram(s) could not be updated
+          </div>
+          {rerenderFailures.map(failure => (
+            <div key={failure.id} style={{ fontSize: '12px', color: '#721c24', padding: '2px 0' }}>
+              {failure.diagramType} • {failure.location}: {failure.error}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', justifyContent: 'flex-end', paddingTop: '20px', marginTop: '20px', borderTop: '1px solid #edebe9' }}>
+        <button
+          onClick={onRerenderAll}
+          disabled={isBusy || !items.some(item => item.onCanvas)}
+          title="Re-render every diagram with the current settings"
+          style={{
+            padding: '10px 20px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            background: 'white',
+            color: '#323130',
+            cursor: isBusy ? 'not-allowed' : 'pointer'
+          }}
+        >
+          🎨 Re-render All
+        </button>
+        {items.some(item => item.dataBinding) && (
+          <button
+            onClick={onRefreshLinked}
+            disabled={isBusy}
+            title="Regenerate linked diagrams from their current data"
+            style={{
+              padding: '10px 20px',
+              border: '1px solid #edebe9',
+              borderRadius: '4px',
+              background: 'white',
+              color: '#323130',
+              cursor: isBusy ? 'not-allowed' : 'pointer'
+            }}
+          >
+            🔗 Refresh Linked
+          </button>
+        )}
+        <button
+          onClick={onRefresh}
+          disabled={isBusy}
+          style={{
+            padding: '10px 20px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            background: 'white',
+            color: '#323130',
+            cursor: isBusy ? 'not-allowed' : 'pointer'
+          }}
+        >
+          🔄 Refresh
+        </button>
+        <button
+          onClick={onRepair}
+          disabled={isBusy}
+          title="Find orphaned metadata and copy-pasted diagrams"
+          style={{
+            padding: '10px 20px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            background: 'white',
+            color: '#323130',
+            cursor: isBusy ? 'not-allowed' : 'pointer'
+          }}
+        >
+          🩺 Repair
+        </button>
+        {onInsertTableOfFigures && (
+          <button
+            onClick={onInsertTableOfFigures}
+            disabled={isBusy}
+            title="Insert a table of figures at the cursor, listing every captioned diagram"
+            style={{
+              padding: '10px 20px',
+              border: '1px solid #edebe9',
+              borderRadius: '4px',
+              background: 'white',
+              color: '#323130',
+              cursor: isBusy ? 'not-allowed' : 'pointer'
+            }}
+          >
+            📑 Table of Figures
+          </button>
+        )}
+        <button
+          onClick={onClose}
+          style={{
+            padding: '10px 20px',
+            border: 'none',
+            borderRadius: '4px',
+            background: '#0078d4',
+            color: 'white',
+            cursor: 'pointer',
+            fontWeight: '600'
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramInventory;
@@ -0,0 +1,177 @@
+import * as React from 'react';
+import { useState } from 'react';
+import { DiagramRepairReport, DiagramRepairOptions } from '../utils/powerPointUtils';
+
+interface DiagramRepairProps {
+  report: DiagramRepairReport | null;
+  isScanning: boolean;
+  isRepairing: boolean;
+  onScan: () => void;
+  onRepair: (options: DiagramRepairOptions) => void;
+  onClose: () => void;
+}
+
+const sectionStyle: React.CSSProperties = {
+  marginBottom: '20px',
+  border: '1px solid #edebe9',
+  borderRadius: '4px',
+  padding: '10px 12px'
+};
+
+const listItemStyle: React.CSSProperties = {
+  fontSize: '12px',
+  color: '#605e5c',
+  fontFamily: 'Consolas, Monaco, monospace',
+  padding: '2px 0'
+};
+
+const DiagramRepair: React.FC<DiagramRepairProps> = ({ report, isScanning, isRepairing, onScan, onRepair, onClose }) => {
+  const [purgeOrphans, setPurgeOrphans] = useState(true);
+  const [forkDuplicates, setForkDuplicates] = useState(true);
+
+  const hasProblems = !!report && (
+    report.orphanedRecords.length > 0 ||
+    report.unverifiableRecords.length > 0 ||
+    report.danglingShapes.length > 0 ||
+    report.duplicatedIds.length > 0
+  );
+  const canRepair = !!report && !isRepairing && !isScanning &&
+    ((purgeOrphans && report.orphanedRecords.length > 0) || (forkDuplicates && report.duplicatedIds.length > 0));
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>🩺 Repair Diagrams</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {isScanning || !report ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>Checking diagrams...</div>
+      ) : !hasProblems ? (
+        <div style={{ color: '#28a745', fontWeight: '600' }}>✅ All diagrams are consistent - nothing to repair.</div>
+      ) : (
+        <>
+          {/* Orphaned Metadata */}
+          <div style={sectionStyle}>
+            <h3 style={{ margin: '0 0 6px 0', color: '#323130', fontSize: '14px' }}>
+              Orphaned metadata ({report.orphanedRecords.length})
+            </h3>
+            <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '6px' }}>
+              Stored diagram source whose picture was deleted from the document.
+            </div>
+            {report.orphanedRecords.map(record => (
+              <div key={record.id} style={listItemStyle}>
+                {record.id} • {record.diagramType} • created {new Date(record.createdAt).toLocaleString()}
+              </div>
+            ))}
+            {report.orphanedRecords.length > 0 && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '8px', fontSize: '13px', color: '#323130' }}>
+                <input type="checkbox" checked={purgeOrphans} onChange={(e) => setPurgeOrphans(e.target.checked)} />
+                Purge orphaned metadata
+              </label>
+            )}
+          </div>
+
+          {/* Duplicated IDs */}
+          <div style={sectionStyle}>
+            <h3 style={{ margin: '0 0 6px 0', color: '#323130', fontSize: '14px' }}>
+              Duplicated IDs ({report.duplicatedIds.length})
+            </h3>
+            <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '6px' }}>
+              Copy-pasted diagrams that share one source - editing one would change the wrong picture.
+            </div>
+            {report.duplicatedIds.map(duplicate => (
+              <div key={duplicate.diagramId} style={listItemStyle}>
+                {duplicate.diagramId} • {duplicate.locations.join(', ')}
+              </div>
+            ))}
+            {report.duplicatedIds.length > 0 && (
+              <label style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '8px', fontSize: '13px', color: '#323130' }}>
+                <input type="checkbox" checked={forkDuplicates} onChange={(e) => setForkDuplicates(e.target.checked)} />
+                Split copies into independent diagrams
+              </label>
+            )}
+          </div>
+
+          {/* Dangling Shapes */}
+          <div style={sectionStyle}>
+            <h3 style={{ margin: '0 0 6px 0', color: '#323130', fontSize: '14px' }}>
+              Diagrams without source ({report.danglingShapes.length})
+            </h3>
+            <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '6px' }}>
+              Pictures tagged as Mermaid diagrams whose source is missing. They can't be edited and are left as they are.
+            </div>
+            {report.danglingShapes.map((shape, index) => (
+              <div key={`${shape.diagramId}-${index}`} style={listItemStyle}>
+                {shape.diagramId} • {shape.location}
+              </div>
+            ))}
+          </div>
+
+          {/* Unverifiable Metadata */}
+          {report.unverifiableRecords.length > 0 && (
+            <div style={sectionStyle}>
+              <h3 style={{ margin: '0 0 6px 0', color: '#323130', fontSize: '14px' }}>
+                Unverifiable metadata ({report.unverifiableRecords.length})
+              </h3>
+              <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '6px' }}>
+                Diagrams saved without a tag on their picture, so it can't be told whether the picture still exists. Their source is kept.
+              </div>
+              {report.unverifiableRecords.map(record => (
+                <div key={record.id} style={listItemStyle}>
+                  {record.id} • {record.diagramType} • created {new Date(record.createdAt).toLocaleString()}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Action Buttons */}
+      <div style={{ display: 'flex', gap: '10px', justifyContent: 'flex-end', paddingTop: '20px', borderTop: '1px solid #edebe9' }}>
+        <button
+          onClick={onScan}
+          disabled={isScanning || isRepairing}
+          style={{
+            padding: '10px 20px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            background: 'white',
+            color: '#323130',
+            cursor: isScanning || isRepairing ? 'not-allowed' : 'pointer'
+          }}
+        >
+          🔄 Scan Again
+        </button>
+        <button
+          onClick={() => onRepair({ purgeOrphans, forkDuplicates })}
+          disabled={!canRepair}
+          style={{
+            padding: '10px 20px',
+            border: 'none',
+            borderRadius: '4px',
+            background: canRepair ? '#0078d4' : '#ccc',
+            color: 'white',
+            cursor: canRepair ? 'pointer' : 'not-allowed',
+            fontWeight: '600'
+          }}
+        >
+          {isRepairing ? 'Repairing...' : '🩺 Repair'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramRepair;
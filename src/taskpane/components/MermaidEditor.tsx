@@ -1,21 +1,39 @@
 import * as React from 'react';
-import { useState, useEffect } from 'react';
-import mermaid from 'mermaid';
-import { insertDiagram, updateDiagram, getSelectedDiagram, listAllStoredDiagrams, getSelectedShapeInfo, testDiagramStorage, checkOfficeContext, loadSettings, saveSettings, MermaidSettings, defaultSettings, createDiagramInserter, detectOfficePlatform, OfficePlatform, captureCursorPosition, exitInsertionMode, insertAtCurrentPosition } from '../utils/powerPointUtils';
+import { useState, useEffect, useRef } from 'react';
+import { insertDiagram, updateDiagram, listAllStoredDiagrams, getSelectedShapeInfo, testDiagramStorage, checkOfficeContext, loadSettings, saveSettings, MermaidSettings, defaultSettings, createDiagramInserter, detectOfficePlatform, OfficePlatform, captureCursorPosition, exitInsertionMode, insertAtCurrentPosition, insertTableOfFigures, readSelectedRange, readDataBinding, DataBinding, DiagramRevision, DiagramInventoryItem, DiagramRepairReport, DiagramRepairOptions, DiagramInsertOptions, Snippet, availableSnippetScopes, loadSnippets, saveSnippets } from '../utils/powerPointUtils';
 import Settings from './Settings';
+import DiagramHistory from './DiagramHistory';
+import DiagramInventory, { DiagramRerenderFailure } from './DiagramInventory';
+import DiagramRepair from './DiagramRepair';
+import DataImportPanel from './DataImportPanel';
+import TemplateGallery from './TemplateGallery';
+import SnippetLibrary from './SnippetLibrary';
+import CodeEditor, { CodeEditorHandle } from './CodeEditor';
+import { MermaidDiagnostic, parseErrorDiagnostics } from '../utils/mermaidDiagnostics';
+import { configureRenderer, mermaidConfigFromSettings, renderDiagram, RenderTimeoutError } from '../utils/renderService';
+import { sanitizeSvg } from '../utils/svgSanitizer';
+import SvgImage from './SvgImage';
+import { toDataTable, generateDiagramCode, dataTemplates } from '../utils/dataImport';
+import { DiagramTemplate, builtInTemplates, loadTemplates } from '../utils/diagramTemplates';
 
 /* global Office */
 
-const defaultMermaidCode = `graph TD
-    A[Start] --> B{Decision}
-    B -->|Yes| C[Action 1]
-    B -->|No| D[Action 2]
-    C --> E[End]
-    D --> E`;
+// New diagrams start from the first built-in template, the decision flowchart
+const defaultMermaidCode = builtInTemplates[0].code;
+
+const diagramTemplates = loadTemplates();
+
+// Live preview waits for a pause in typing, and preview renders are stopped after the time limit
+const LIVE_PREVIEW_DELAY_MS = 600;
+const RENDER_TIME_LIMIT_MS = 5000;
 
 const MermaidEditor: React.FC = () => {
   const [mermaidCode, setMermaidCode] = useState(defaultMermaidCode);
   const [svgContent, setSvgContent] = useState('');
+  const [previewCode, setPreviewCode] = useState(''); // The code svgContent was rendered from
+  const [diagnostics, setDiagnostics] = useState<MermaidDiagnostic[]>([]);
+  const renderSequence = useRef(0); // Number of the latest render - earlier ones are stale
+  const livePreviewPaused = useRef(false); // Set when a live render hits the time limit
   const [error, setError] = useState('');
   const [successMessage, setSuccessMessage] = useState('');
   const [showSvgCode, setShowSvgCode] = useState(false);
@@ -28,6 +46,26 @@ const MermaidEditor: React.FC = () => {
   const [currentPlatform, setCurrentPlatform] = useState<OfficePlatform>(OfficePlatform.Unknown);
   const [diagramInserter, setDiagramInserter] = useState<any>(null);
   const [isInsertionMode, setIsInsertionMode] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [diagramHistory, setDiagramHistory] = useState<DiagramRevision[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [revisionNote, setRevisionNote] = useState('');
+  const [revisionAuthor, setRevisionAuthor] = useState('');
+  const [showInventory, setShowInventory] = useState(false);
+  const [inventoryItems, setInventoryItems] = useState<DiagramInventoryItem[]>([]);
+  const [isLoadingInventory, setIsLoadingInventory] = useState(false);
+  const [rerenderProgress, setRerenderProgress] = useState<{ completed: number; total: number; label: string } | null>(null);
+  const [rerenderFailures, setRerenderFailures] = useState<DiagramRerenderFailure[]>([]);
+  const [showRepair, setShowRepair] = useState(false);
+  const [repairReport, setRepairReport] = useState<DiagramRepairReport | null>(null);
+  const [isScanningDiagrams, setIsScanningDiagrams] = useState(false);
+  const [isRepairing, setIsRepairing] = useState(false);
+  const [showDataImport, setShowDataImport] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
+  const [snippetSelection, setSnippetSelection] = useState(''); // Editor selection when the snippet library opened
+  const codeEditorRef = useRef<CodeEditorHandle>(null);
+  const [dataBinding, setDataBinding] = useState<DataBinding | null>(null); // Data the current code is generated from
 
   useEffect(() => {
     initializeMermaidAndSettings();
@@ -39,13 +77,15 @@ const MermaidEditor: React.FC = () => {
   }, [settings]);
 
   const initializeMermaidAndSettings = async () => {
+    // Kept here as well as in state - state set during startup isn't visible until the next render
+    let inserter: any = null;
     try {
       // Detect platform and create appropriate inserter
       const platform = detectOfficePlatform();
       setCurrentPlatform(platform);
       
       if (platform !== OfficePlatform.Unknown) {
-        const inserter = createDiagramInserter();
+        inserter = createDiagramInserter();
         setDiagramInserter(inserter);
         
         // Set up insertion complete callback for Word
@@ -66,9 +106,9 @@ const MermaidEditor: React.FC = () => {
       // Initialize mermaid with loaded settings
       applyMermaidSettings(loadedSettings);
       
-      // Check if there's a selected diagram to edit (for both PowerPoint and Word)
-      if (platform === OfficePlatform.PowerPoint || platform === OfficePlatform.Word) {
-        checkSelectedDiagram();
+      // Check if there's a selected diagram to edit, in whichever host we're running in
+      if (inserter) {
+        checkSelectedDiagram(inserter);
       }
       
       // Initial render
@@ -77,75 +117,35 @@ const MermaidEditor: React.FC = () => {
       console.error('Failed to load settings:', error);
       // Use default settings if loading fails
       applyMermaidSettings(defaultSettings);
-      if (currentPlatform === OfficePlatform.PowerPoint || currentPlatform === OfficePlatform.Word) {
-        checkSelectedDiagram();
+      if (inserter) {
+        checkSelectedDiagram(inserter);
       }
       setTimeout(() => renderMermaid(), 100);
     }
   };
 
   const applyMermaidSettings = (settingsToApply: MermaidSettings = settings) => {
-    const mermaidConfig = {
-      startOnLoad: false,
-      theme: settingsToApply.theme === 'custom' ? 'base' : settingsToApply.theme,
-      securityLevel: 'loose' as const,
-      fontFamily: settingsToApply.fontFamily
-    };
-
-    // Add theme variables for custom theme
-    if (settingsToApply.theme === 'custom') {
-      (mermaidConfig as any).themeVariables = {
-        primaryColor: settingsToApply.primaryColor,
-        primaryTextColor: settingsToApply.primaryTextColor,
-        primaryBorderColor: settingsToApply.primaryBorderColor,
-        lineColor: settingsToApply.lineColor,
-        secondaryColor: settingsToApply.secondaryColor,
-        tertiaryColor: settingsToApply.tertiaryColor,
-        fontFamily: settingsToApply.fontFamily,
-        fontSize: `${settingsToApply.fontSize}px`,
-        
-        // Timeline-specific colors (use primary color for all timeline sections)
-        cScale0: settingsToApply.primaryColor,
-        cScale1: settingsToApply.secondaryColor,
-        cScale2: settingsToApply.tertiaryColor,
-        cScale3: settingsToApply.primaryColor,
-        cScale4: settingsToApply.secondaryColor,
-        cScale5: settingsToApply.tertiaryColor,
-        cScale6: settingsToApply.primaryColor,
-        cScale7: settingsToApply.secondaryColor,
-        cScale8: settingsToApply.tertiaryColor,
-        cScale9: settingsToApply.primaryColor,
-        cScale10: settingsToApply.secondaryColor,
-        cScale11: settingsToApply.tertiaryColor,
-        
-        // Timeline text colors
-        cScaleLabel0: settingsToApply.primaryTextColor,
-        cScaleLabel1: settingsToApply.primaryTextColor,
-        cScaleLabel2: settingsToApply.primaryTextColor,
-        cScaleLabel3: settingsToApply.primaryTextColor,
-        cScaleLabel4: settingsToApply.primaryTextColor,
-        cScaleLabel5: settingsToApply.primaryTextColor,
-        cScaleLabel6: settingsToApply.primaryTextColor,
-        cScaleLabel7: settingsToApply.primaryTextColor,
-        cScaleLabel8: settingsToApply.primaryTextColor,
-        cScaleLabel9: settingsToApply.primaryTextColor,
-        cScaleLabel10: settingsToApply.primaryTextColor,
-        cScaleLabel11: settingsToApply.primaryTextColor
-      };
-    }
-
-    mermaid.initialize(mermaidConfig);
+    configureRenderer(mermaidConfigFromSettings(settingsToApply));
   };
 
-  // Removed auto-refresh on code change - now only manual refresh
+  // Live preview: render once typing pauses
+  useEffect(() => {
+    if (!settings.livePreview || livePreviewPaused.current) {
+      return;
+    }
+    const timer = setTimeout(() => renderMermaid(true), LIVE_PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [mermaidCode, settings.livePreview]);
 
-  const checkSelectedDiagram = async () => {
+  const checkSelectedDiagram = async (inserter: any) => {
     try {
-      const diagramData = await getSelectedDiagram();
+      const diagramData = await inserter.getSelectedDiagram();
       if (diagramData) {
         setMermaidCode(diagramData.code);
         setSelectedDiagramId(diagramData.id);
+        setDataBinding(diagramData.dataBinding || null);
         setIsEditing(true);
+        setDiagnostics([]);
       }
     } catch (error) {
       // No diagram selected, continue with new diagram flow
@@ -153,47 +153,78 @@ const MermaidEditor: React.FC = () => {
     }
   };
 
-  const renderMermaid = async () => {
+  // Show a rendered diagram and remember the code it came from, so an outdated preview is never inserted
+  const showPreview = (svg: string, code: string) => {
+    setSvgContent(svg);
+    setPreviewCode(code);
+    setDiagnostics([]);
+  };
+
+  const renderMermaid = async (live: boolean = false) => {
+    const code = mermaidCode;
+    const renderNumber = ++renderSequence.current;
+    const isLatestRender = () => renderNumber === renderSequence.current;
     try {
       // Clear previous error but don't show new errors immediately
       setError('');
       
       // Basic validation - don't render if code looks incomplete
-      const trimmedCode = mermaidCode.trim();
+      const trimmedCode = code.trim();
       if (trimmedCode.length < 5) {
         // Code is too short, probably still typing
         return;
       }
       
-      // Create a unique ID for this render
-      const renderID = 'mermaid-preview-' + Date.now();
+      // Rendered in the sandboxed renderer, which parses first so syntax errors carry their location
+      const svg = await renderDiagram(code, { timeout: RENDER_TIME_LIMIT_MS });
       
-      // Use mermaid.render with proper error handling
-      const { svg } = await mermaid.render(renderID, mermaidCode);
-      setSvgContent(svg);
+      // A newer render has started since this one - its result is the one to show
+      if (isLatestRender()) {
+        showPreview(svg, code);
+      }
     } catch (err) {
-      // Only show error if it looks like user is done typing (debounced)
-      const errorMessage = err instanceof Error ? err.message : 'Invalid mermaid syntax';
-      setError(`Syntax error: ${errorMessage}`);
-      setSvgContent('');
+      if (!isLatestRender()) {
+        return;
+      }
+      if (err instanceof RenderTimeoutError) {
+        if (live) {
+          livePreviewPaused.current = true;
+        }
+        setError(`Rendering took longer than ${RENDER_TIME_LIMIT_MS / 1000} seconds, so the preview was not updated.` +
+          (live ? ' Live preview is paused - click Update Preview to render the diagram and resume it.' : ''));
+        return;
+      }
+      // Mark the problems in the editor and keep the last valid preview
+      setDiagnostics(parseErrorDiagnostics(err, code));
     }
   };
 
-  const generateSvgForInsertion = async (): Promise<string> => {
+  const generateSvgForInsertion = async (code: string = mermaidCode): Promise<string> => {
     // Basic validation - check if code looks valid
-    const trimmedCode = mermaidCode.trim();
+    const trimmedCode = code.trim();
     if (trimmedCode.length < 5) {
       throw new Error('Code is too short - please enter a complete Mermaid diagram');
     }
     
-    // Create a unique ID for this render
-    const renderID = 'mermaid-insertion-' + Date.now();
-    
-    // Use mermaid.render to generate SVG
-    const { svg } = await mermaid.render(renderID, mermaidCode);
-    return svg;
+    return renderDiagram(code);
   };
 
+  const getInsertOptions = (): DiagramInsertOptions => ({
+    format: settings.insertionFormat,
+    placement: settings.placement,
+    slideSize: settings.slideSize,
+    slideMargin: settings.slideMargin,
+    sizeLimits: {
+      maxWidthPercent: settings.wordMaxWidthPercent,
+      maxHeightPercent: settings.wordMaxHeightPercent
+    },
+    layout: {
+      wrap: settings.wordTextWrap,
+      anchorPosition: settings.wordAnchorPosition
+    },
+    caption: settings.wordCaptions
+  });
+
   const handleInsert = async () => {
     console.log('=== INSERTION DEBUG START ===');
     console.log('Current platform:', currentPlatform);
@@ -203,9 +234,9 @@ const MermaidEditor: React.FC = () => {
     // For Word, use the two-step insertion process
     // For PowerPoint, use direct insertion
     
-    let svgToUse = svgContent;
+    let svgToUse = previewCode === mermaidCode ? svgContent : '';
     
-    // Auto-generate preview if it doesn't exist
+    // Auto-generate preview if it doesn't exist or shows older code
     if (!svgToUse) {
       setError('');
       setSuccessMessage('Generating preview and inserting diagram...');
@@ -215,10 +246,11 @@ const MermaidEditor: React.FC = () => {
         svgToUse = await generateSvgForInsertion();
         
         // Also update the preview state for the UI
-        setSvgContent(svgToUse);
+        showPreview(svgToUse, mermaidCode);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : 'Failed to generate diagram';
         setError(`Failed to generate diagram: ${errorMessage}`);
+        setDiagnostics(parseErrorDiagnostics(err, mermaidCode));
         setSuccessMessage('');
         return;
       }
@@ -238,22 +270,32 @@ const MermaidEditor: React.FC = () => {
       
       if (isEditing && selectedDiagramId && currentPlatform !== OfficePlatform.Unknown) {
         console.log('Updating existing diagram:', selectedDiagramId);
-        await diagramInserter.updateDiagram(selectedDiagramId, mermaidCode, svgToUse);
+        await diagramInserter.updateDiagram(selectedDiagramId, mermaidCode, svgToUse, {
+          note: revisionNote.trim() || undefined,
+          author: revisionAuthor.trim() || undefined,
+          dataBinding
+        });
         setSuccessMessage('Diagram updated successfully!');
+        setRevisionNote('');
         // Keep the current state - don't reset after update
         setError('');
       } else {
         console.log('Inserting new diagram...');
-        await diagramInserter.insertDiagram(mermaidCode, svgToUse);
+        await diagramInserter.insertDiagram(mermaidCode, svgToUse, { ...getInsertOptions(), dataBinding: dataBinding || undefined });
         
-        const platformName = currentPlatform === OfficePlatform.Word ? 'document' : 'slide';
+        const platformName = currentPlatform === OfficePlatform.Word ? 'document'
+          : currentPlatform === OfficePlatform.Excel ? 'worksheet'
+          : currentPlatform === OfficePlatform.Outlook ? 'message'
+          : 'slide';
         setSuccessMessage(`Diagram inserted into ${platformName} successfully!`);
         
         // Reset after inserting a new diagram (Word is disabled, so always reset)
         setIsEditing(false);
         setSelectedDiagramId(null);
+        setDataBinding(null);
         setMermaidCode(defaultMermaidCode);
         setSvgContent('');
+        setDiagnostics([]);
         setError('');
       }
       
@@ -292,10 +334,12 @@ const MermaidEditor: React.FC = () => {
   const handleNewDiagram = () => {
     setIsEditing(false);
     setSelectedDiagramId(null);
+    setDataBinding(null);
     setMermaidCode(defaultMermaidCode);
     setError('');
     setSuccessMessage('');
     setSvgContent(''); // Clear preview
+    setDiagnostics([]);
   };
 
   const handleCheckSelectedDiagram = async () => {
@@ -307,7 +351,9 @@ const MermaidEditor: React.FC = () => {
         if (diagramData) {
           setMermaidCode(diagramData.code);
           setSelectedDiagramId(diagramData.id);
+          setDataBinding(diagramData.dataBinding || null);
           setIsEditing(true);
+          setDiagnostics([]);
           setSuccessMessage('Diagram loaded for editing! Modify the code and click "Update Preview", then "Update Diagram".');
           setTimeout(() => setSuccessMessage(''), 8000);
           // Auto-refresh preview when loading for editing
@@ -344,7 +390,7 @@ const MermaidEditor: React.FC = () => {
     }
     
     try {
-      await navigator.clipboard.writeText(svgContent);
+      await navigator.clipboard.writeText(sanitizeSvg(svgContent));
       setSuccessMessage('SVG code copied to clipboard! Paste into a text editor and save as .svg file');
       setTimeout(() => setSuccessMessage(''), 8000);
     } catch (err) {
@@ -354,6 +400,7 @@ const MermaidEditor: React.FC = () => {
 
   const handleManualRefresh = () => {
     setError('');
+    livePreviewPaused.current = false;
     renderMermaid();
   };
 
@@ -465,11 +512,280 @@ const MermaidEditor: React.FC = () => {
     }
   };
 
+  const handleOpenHistory = async () => {
+    setError('');
+    setSuccessMessage('');
+    try {
+      if (diagramInserter && selectedDiagramId) {
+        const revisions = await diagramInserter.getDiagramHistory(selectedDiagramId);
+        setDiagramHistory(revisions);
+        setShowHistory(true);
+      } else {
+        setError('Select a diagram for editing to see its history');
+      }
+    } catch (error) {
+      setError('Failed to load diagram history');
+      console.error('History load error:', error);
+    }
+  };
+
+  const handleRestoreRevision = async (revision: DiagramRevision) => {
+    if (!diagramInserter || !selectedDiagramId) {
+      return;
+    }
+    
+    setIsRestoring(true);
+    setError('');
+    try {
+      // Re-render the old source so the restored diagram uses the current settings
+      const svg = await generateSvgForInsertion(revision.code);
+      await diagramInserter.updateDiagram(selectedDiagramId, revision.code, svg, {
+        note: `Restored version from ${new Date(revision.timestamp).toLocaleString()}`,
+        author: revisionAuthor.trim() || undefined
+      });
+      
+      setMermaidCode(revision.code);
+      showPreview(svg, revision.code);
+      setDiagramHistory(await diagramInserter.getDiagramHistory(selectedDiagramId));
+      setSuccessMessage('Previous version restored successfully!');
+      setTimeout(() => setSuccessMessage(''), 5000);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore version';
+      setError(`Restore failed: ${errorMessage}`);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const loadInventory = async () => {
+    if (!diagramInserter) {
+      setError('Diagram inserter not available');
+      return;
+    }
+    
+    setIsLoadingInventory(true);
+    try {
+      setInventoryItems(await diagramInserter.listDiagrams());
+    } catch (error) {
+      setError('Failed to load diagram inventory');
+      console.error('Inventory load error:', error);
+    } finally {
+      setIsLoadingInventory(false);
+    }
+  };
+
+  const handleOpenInventory = () => {
+    setError('');
+    setSuccessMessage('');
+    setRerenderFailures([]);
+    setShowInventory(true);
+    loadInventory();
+  };
+
+  const renderThumbnail = async (code: string): Promise<string> => {
+    return renderDiagram(code);
+  };
+
+  const handleInventoryJump = async (item: DiagramInventoryItem) => {
+    setError('');
+    try {
+      await diagramInserter.selectDiagram(item.id);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to select diagram';
+      setError(errorMessage);
+    }
+  };
+
+  const handleInventoryEdit = (item: DiagramInventoryItem) => {
+    setMermaidCode(item.code);
+    setSelectedDiagramId(item.id);
+    setDataBinding(item.dataBinding || null);
+    setIsEditing(true);
+    setSvgContent('');
+    setDiagnostics([]);
+    setError('');
+    setShowInventory(false);
+    setSuccessMessage('Diagram loaded for editing!');
+    setTimeout(() => setSuccessMessage(''), 3000);
+  };
+
+  const handleInventoryDuplicate = async (item: DiagramInventoryItem) => {
+    setError('');
+    try {
+      const svg = await generateSvgForInsertion(item.code);
+      await diagramInserter.insertDiagram(item.code, svg, { ...getInsertOptions(), dataBinding: item.dataBinding });
+      setSuccessMessage('Diagram duplicated successfully!');
+      setTimeout(() => setSuccessMessage(''), 5000);
+      await loadInventory();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to duplicate diagram';
+      
+      if (errorMessage.startsWith('SUCCESS:')) {
+        // Word places the copy through insertion mode like any other new diagram
+        setShowInventory(false);
+        setIsInsertionMode(true);
+        setSuccessMessage(errorMessage.replace('SUCCESS: ', ''));
+        setTimeout(() => setSuccessMessage(''), 15000);
+      } else {
+        setError(`Duplicate failed: ${errorMessage}`);
+      }
+    }
+  };
+
+  const handleInventoryDelete = async (item: DiagramInventoryItem) => {
+    setError('');
+    try {
+      await diagramInserter.deleteDiagram(item.id);
+      
+      if (selectedDiagramId === item.id) {
+        handleNewDiagram();
+      }
+      
+      setSuccessMessage('Diagram deleted.');
+      setTimeout(() => setSuccessMessage(''), 3000);
+      await loadInventory();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete diagram';
+      setError(`Delete failed: ${errorMessage}`);
+    }
+  };
+
+  const handleRerenderAll = async () => {
+    const targets = inventoryItems.filter(item => item.onCanvas);
+    const failures: DiagramRerenderFailure[] = [];
+    
+    setError('');
+    setRerenderFailures([]);
+    setRerenderProgress({ completed: 0, total: targets.length, label: 'Re-rendering diagrams' });
+    console.log(`Re-rendering ${targets.length} diagram(s) with current settings`);
+    
+    for (let i = 0; i < targets.length; i++) {
+      const item = targets[i];
+      try {
+        const svg = await generateSvgForInsertion(item.code);
+        await diagramInserter.updateDiagram(item.id, item.code, svg);
+      } catch (err) {
+        console.error('Re-render failed for diagram:', item.id, err);
+        failures.push({
+          id: item.id,
+          diagramType: item.diagramType,
+          location: item.location,
+          error: err instanceof Error ? err.message : String(err)
+        });
+      }
+      setRerenderProgress({ completed: i + 1, total: targets.length, label: 'Re-rendering diagrams' });
+    }
+    
+    setRerenderProgress(null);
+    setRerenderFailures(failures);
+    if (failures.length < targets.length) {
+      setSuccessMessage(`Re-rendered ${targets.length - failures.length} of ${targets.length} diagram(s) with the current settings.`);
+      setTimeout(() => setSuccessMessage(''), 5000);
+    }
+    await loadInventory();
+  };
+
+  // Regenerate each linked diagram's code from its current data, updating only those that changed
+  const handleRefreshLinked = async () => {
+    const targets = inventoryItems.filter(item => item.onCanvas && item.dataBinding);
+    const failures: DiagramRerenderFailure[] = [];
+    let updatedCount = 0;
+    
+    setError('');
+    setRerenderFailures([]);
+    setRerenderProgress({ completed: 0, total: targets.length, label: 'Refreshing linked diagrams' });
+    console.log(`Refreshing ${targets.length} linked diagram(s)`);
+    
+    for (let i = 0; i < targets.length; i++) {
+      const item = targets[i];
+      const binding = item.dataBinding!;
+      try {
+        const cells = await readDataBinding(binding);
+        const code = generateDiagramCode(toDataTable(cells, binding.hasHeaderRow), binding);
+        if (code !== item.code) {
+          const svg = await generateSvgForInsertion(code);
+          await diagramInserter.updateDiagram(item.id, code, svg, { note: 'Refreshed from linked data' });
+          updatedCount++;
+          
+          if (item.id === selectedDiagramId) {
+            setMermaidCode(code);
+            showPreview(svg, code);
+          }
+        }
+      } catch (err) {
+        console.error('Refresh failed for linked diagram:', item.id, err);
+        failures.push({
+          id: item.id,
+          diagramType: item.diagramType,
+          location: item.location,
+          error: err instanceof Error ? err.message : String(err)
+        });
+      }
+      setRerenderProgress({ completed: i + 1, total: targets.length, label: 'Refreshing linked diagrams' });
+    }
+    
+    setRerenderProgress(null);
+    setRerenderFailures(failures);
+    if (failures.length < targets.length) {
+      setSuccessMessage(`Refreshed linked diagrams: ${updatedCount} updated, ${targets.length - failures.length - updatedCount} already current.`);
+      setTimeout(() => setSuccessMessage(''), 5000);
+    }
+    await loadInventory();
+  };
+
+  const scanDiagrams = async () => {
+    setIsScanningDiagrams(true);
+    try {
+      setRepairReport(await diagramInserter.checkDiagramIntegrity());
+    } catch (error) {
+      setError('Failed to check diagrams');
+      console.error('Diagram scan error:', error);
+    } finally {
+      setIsScanningDiagrams(false);
+    }
+  };
+
+  const handleOpenRepair = () => {
+    setError('');
+    setRepairReport(null);
+    setShowRepair(true);
+    scanDiagrams();
+  };
+
+  const handleRepairDiagrams = async (options: DiagramRepairOptions) => {
+    setIsRepairing(true);
+    setError('');
+    try {
+      const result = await diagramInserter.repairDiagrams(options);
+      setSuccessMessage(`Repair complete: purged ${result.purgedCount} orphaned diagram(s), split ${result.forkedCount} copied diagram(s).`);
+      setTimeout(() => setSuccessMessage(''), 5000);
+      await scanDiagrams();
+      await loadInventory();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to repair diagrams';
+      setError(`Repair failed: ${errorMessage}`);
+    } finally {
+      setIsRepairing(false);
+    }
+  };
+
+  const handleInsertTableOfFigures = async () => {
+    try {
+      setError('');
+      await insertTableOfFigures(diagramInserter);
+      setSuccessMessage('Table of figures inserted at the cursor.');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to insert table of figures';
+      setError(`Could not insert table of figures: ${errorMessage}`);
+    }
+  };
+
   const handleSettingsChange = async (newSettings: MermaidSettings) => {
     try {
       setSettings(newSettings);
       await saveSettings(newSettings);
-      setSuccessMessage('Settings saved successfully! New diagrams will use these settings.');
+      setSuccessMessage('Settings saved successfully! New diagrams will use these settings - use "Re-render All" in the diagram list to update existing ones.');
       setTimeout(() => setSuccessMessage(''), 5000);
       
       // Re-render current preview with new settings
@@ -480,6 +796,49 @@ const MermaidEditor: React.FC = () => {
     }
   };
 
+  // Replace the editor code with code generated from imported data and preview it
+  const handleDataImport = async (code: string, binding: DataBinding | null) => {
+    setShowDataImport(false);
+    setMermaidCode(code);
+    setDataBinding(binding);
+    setError('');
+    try {
+      showPreview(await generateSvgForInsertion(code), code);
+      setSuccessMessage('Diagram generated from data - edit the code or insert it');
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setDiagnostics(parseErrorDiagnostics(err, code));
+    }
+  };
+
+  // Replace the editor code with a template from the gallery and preview it
+  const handleUseTemplate = async (template: DiagramTemplate) => {
+    setShowTemplates(false);
+    setMermaidCode(template.code);
+    setDataBinding(null);
+    setDiagnostics([]);
+    setError('');
+    try {
+      showPreview(await generateSvgForInsertion(template.code), template.code);
+      setSuccessMessage(`"${template.name}" template loaded - edit the code or insert it`);
+      setTimeout(() => setSuccessMessage(''), 3000);
+    } catch (err) {
+      setDiagnostics(parseErrorDiagnostics(err, template.code));
+    }
+  };
+
+  const handleOpenSnippets = () => {
+    setSnippetSelection(codeEditorRef.current ? codeEditorRef.current.getSelection() : '');
+    setShowSnippets(true);
+  };
+
+  const handleInsertSnippet = (snippet: Snippet) => {
+    setShowSnippets(false);
+    if (codeEditorRef.current) {
+      codeEditorRef.current.insertSnippet(snippet.code);
+    }
+  };
+
   const handleOpenSettings = () => {
     setShowSettings(true);
     setError('');
@@ -520,7 +879,7 @@ const MermaidEditor: React.FC = () => {
             ✨
           </button>
           
-          {(currentPlatform === OfficePlatform.PowerPoint || currentPlatform === OfficePlatform.Word) && (
+          {(currentPlatform !== OfficePlatform.Unknown) && (
             <button 
               onClick={handleCheckSelectedDiagram}
               title="Edit Selected Diagram"
@@ -542,6 +901,50 @@ const MermaidEditor: React.FC = () => {
             </button>
           )}
 
+          {(currentPlatform !== OfficePlatform.Unknown) && (
+            <button 
+              onClick={handleOpenInventory}
+              title="Diagrams in this Document"
+              style={{
+                padding: '12px 16px',
+                backgroundColor: '#fd7e14',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold',
+                flex: '1',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center'
+              }}>
+              📚
+            </button>
+          )}
+
+          {isEditing && selectedDiagramId && (
+            <button 
+              onClick={handleOpenHistory}
+              title="Diagram History"
+              style={{
+                padding: '12px 16px',
+                backgroundColor: '#6f42c1',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                fontSize: '16px',
+                fontWeight: 'bold',
+                flex: '1',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center'
+              }}>
+              🕘
+            </button>
+          )}
+
           <button 
             onClick={handleOpenSettings}
             title="Diagram Settings"
@@ -786,26 +1189,140 @@ const MermaidEditor: React.FC = () => {
         <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>
           Mermaid Code:
         </label>
-        <textarea
+        <CodeEditor
+          ref={codeEditorRef}
           value={mermaidCode}
-          onChange={(e) => setMermaidCode(e.target.value)}
-          style={{
-            width: '100%',
-            height: '180px',
-            fontFamily: 'Consolas, Monaco, monospace',
-            fontSize: '12px',
-            padding: '10px',
-            border: '1px solid #ccc',
-            borderRadius: '3px',
-            resize: 'vertical',
-            marginBottom: '8px'
-          }}
+          onChange={setMermaidCode}
+          onRender={handleManualRefresh}
+          onInsert={handleInsert}
+          diagnostics={diagnostics}
           placeholder="Enter your mermaid diagram code here..."
         />
+        {dataBinding && (
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            fontSize: '12px',
+            color: '#605e5c',
+            marginBottom: '8px'
+          }}>
+            <span style={{ flex: 1 }}>
+              🔗 {dataTemplates[dataBinding.template].name} linked to {dataBinding.source === 'range' ? dataBinding.address : 'embedded data'} - refreshing replaces manual edits
+            </span>
+            <button
+              onClick={() => setDataBinding(null)}
+              title="Stop regenerating this diagram from its data"
+              style={{
+                padding: '2px 8px',
+                border: '1px solid #ccc',
+                borderRadius: '3px',
+                background: 'white',
+                cursor: 'pointer',
+                fontSize: '12px'
+              }}
+            >
+              Unlink
+            </button>
+          </div>
+        )}
+        {isEditing && (
+          <div style={{ display: 'flex', gap: '8px', width: '100%', marginBottom: '8px' }}>
+            <input
+              type="text"
+              value={revisionNote}
+              onChange={(e) => setRevisionNote(e.target.value)}
+              placeholder="Revision note (optional)"
+              style={{
+                flex: '2',
+                padding: '6px 8px',
+                border: '1px solid #ccc',
+                borderRadius: '3px',
+                fontSize: '12px'
+              }}
+            />
+            <input
+              type="text"
+              value={revisionAuthor}
+              onChange={(e) => setRevisionAuthor(e.target.value)}
+              placeholder="Author (optional)"
+              style={{
+                flex: '1',
+                padding: '6px 8px',
+                border: '1px solid #ccc',
+                borderRadius: '3px',
+                fontSize: '12px'
+              }}
+            />
+          </div>
+        )}
         <div style={{ display: 'flex', gap: '8px', width: '100%' }}>
+          <button
+            onClick={() => setShowTemplates(true)}
+            title="Start from a Template"
+            style={{
+              padding: '12px 16px',
+              backgroundColor: '#e83e8c',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              flex: '1',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            🧩
+          </button>
+
+          <button
+            onClick={handleOpenSnippets}
+            title="Snippets - Save the Selection or Insert at the Cursor"
+            style={{
+              padding: '12px 16px',
+              backgroundColor: '#6610f2',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              flex: '1',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            ✂️
+          </button>
+
+          <button
+            onClick={() => setShowDataImport(true)}
+            title={currentPlatform === OfficePlatform.Excel ? 'Generate from Selected Range or Pasted Data' : 'Generate from Pasted Data'}
+            style={{
+              padding: '12px 16px',
+              backgroundColor: '#20c997',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '16px',
+              fontWeight: 'bold',
+              flex: '1',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center'
+            }}
+          >
+            📥
+          </button>
+
           <button
             onClick={handleManualRefresh}
-            title="Update Preview"
+            title="Update Preview (Ctrl+Enter)"
             style={{
               padding: '12px 16px',
               backgroundColor: '#0078d4',
@@ -826,7 +1343,7 @@ const MermaidEditor: React.FC = () => {
 
           <button
             onClick={handleInsert}
-            title={isEditing ? 'Update Diagram (auto-generates preview if needed)' : `Insert into ${currentPlatform === OfficePlatform.Word ? 'Document' : 'Slide'} (auto-generates preview if needed)`}
+            title={isEditing ? 'Update Diagram (auto-generates preview if needed, Ctrl+Shift+Enter)' : `Insert into ${currentPlatform === OfficePlatform.Word ? 'Document' : currentPlatform === OfficePlatform.Excel ? 'Worksheet' : currentPlatform === OfficePlatform.Outlook ? 'Message' : 'Slide'} (auto-generates preview if needed, Ctrl+Shift+Enter)`}
             style={{
               padding: '12px 16px',
               backgroundColor: '#0078d4',
@@ -912,8 +1429,13 @@ const MermaidEditor: React.FC = () => {
           overflow: 'auto',
           flex: 1
         }}>
+          {svgContent && diagnostics.length > 0 && (
+            <div style={{ marginBottom: '10px', fontSize: '12px', color: '#8a6d3b', fontStyle: 'italic' }}>
+              ⚠️ Showing the last valid preview - fix the problems in the code to update it
+            </div>
+          )}
           {svgContent ? (
-            <div dangerouslySetInnerHTML={{ __html: svgContent }} />
+            <SvgImage svg={svgContent} alt="Diagram preview" />
           ) : (
             <div style={{ color: '#666', fontStyle: 'italic' }}>
               Preview will appear here after you click "Update Preview"...
@@ -1069,6 +1591,221 @@ const MermaidEditor: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Template Gallery Modal */}
+      {showTemplates && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <TemplateGallery
+              templates={diagramTemplates}
+              renderThumbnail={renderThumbnail}
+              onUse={handleUseTemplate}
+              onClose={() => setShowTemplates(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Snippet Library Modal */}
+      {showSnippets && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <SnippetLibrary
+              scopes={availableSnippetScopes()}
+              selection={snippetSelection}
+              onLoad={loadSnippets}
+              onSave={saveSnippets}
+              onInsert={handleInsertSnippet}
+              onClose={() => setShowSnippets(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Data Import Modal */}
+      {showDataImport && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <DataImportPanel
+              canReadRange={currentPlatform === OfficePlatform.Excel}
+              initialBinding={dataBinding}
+              onReadRange={readSelectedRange}
+              onReadBinding={readDataBinding}
+              onGenerate={handleDataImport}
+              onClose={() => setShowDataImport(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* History Modal */}
+      {showHistory && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <DiagramHistory
+              revisions={diagramHistory}
+              isRestoring={isRestoring}
+              onRestore={handleRestoreRevision}
+              onClose={() => setShowHistory(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Inventory Modal */}
+      {showInventory && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1000
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <DiagramInventory
+              items={inventoryItems}
+              isLoading={isLoadingInventory}
+              rerenderProgress={rerenderProgress}
+              rerenderFailures={rerenderFailures}
+              renderThumbnail={renderThumbnail}
+              onRefresh={loadInventory}
+              onJump={handleInventoryJump}
+              onEdit={handleInventoryEdit}
+              onDuplicate={handleInventoryDuplicate}
+              onDelete={handleInventoryDelete}
+              onRepair={handleOpenRepair}
+              onRerenderAll={handleRerenderAll}
+              onRefreshLinked={handleRefreshLinked}
+              onInsertTableOfFigures={currentPlatform === OfficePlatform.Word ? handleInsertTableOfFigures : undefined}
+              onClose={() => setShowInventory(false)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Repair Modal - opened from the inventory, so it stacks above it */}
+      {showRepair && (
+        <div style={{
+          position: 'fixed',
+          top: 0,
+          left: 0,
+          right: 0,
+          bottom: 0,
+          backgroundColor: 'rgba(0, 0, 0, 0.5)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          zIndex: 1001
+        }}>
+          <div style={{
+            backgroundColor: 'white',
+            borderRadius: '8px',
+            maxWidth: '600px',
+            maxHeight: '80vh',
+            width: '90%',
+            overflowY: 'auto',
+            boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)'
+          }}>
+            <DiagramRepair
+              report={repairReport}
+              isScanning={isScanningDiagrams}
+              isRepairing={isRepairing}
+              onScan={scanDiagrams}
+              onRepair={handleRepairDiagrams}
+              onClose={() => setShowRepair(false)}
+            />
+          </div>
+        </div>
+      )}
     </div>
   );
 };
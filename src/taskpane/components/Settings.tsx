@@ -1,34 +1,12 @@
 import * as React from 'react';
 import { useState, useEffect } from 'react';
+import { MermaidSettings, defaultSettings, DiagramImageFormat, DiagramPlacement, SlideSize, WordTextWrap, WordAnchorPosition, MermaidSecurityLevel } from '../utils/powerPointUtils';
+import { securityPolicy, isSecurityLevelAllowed, effectiveSecurityLevel } from '../utils/securityPolicy';
+import { mermaidConfigFromSettings, renderDiagram } from '../utils/renderService';
+import SvgImage from './SvgImage';
 
 /* global Office */
 
-export interface MermaidSettings {
-  fontFamily: string;
-  fontSize: number;
-  primaryColor: string;
-  primaryTextColor: string;
-  primaryBorderColor: string;
-  lineColor: string;
-  backgroundColor: string;
-  secondaryColor: string;
-  tertiaryColor: string;
-  theme: 'default' | 'dark' | 'forest' | 'base' | 'custom';
-}
-
-export const defaultSettings: MermaidSettings = {
-  fontFamily: 'Arial, sans-serif',
-  fontSize: 16,
-  primaryColor: '#0078d4',
-  primaryTextColor: '#000000',
-  primaryBorderColor: '#0078d4',
-  lineColor: '#000000',
-  backgroundColor: '#ffffff',
-  secondaryColor: '#e6f3ff',
-  tertiaryColor: '#b3d9ff',
-  theme: 'default'
-};
-
 interface SettingsProps {
   settings: MermaidSettings;
   onSettingsChange: (settings: MermaidSettings) => void;
@@ -57,38 +35,56 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSettingsChange, onClose
     { name: 'Custom', value: 'custom' as const }
   ];
 
+  const insertionFormats: { name: string, value: DiagramImageFormat, description: string }[] = [
+    { name: 'SVG (Vector)', value: 'svg', description: 'Sharp at any size. Falls back to PNG if the host rejects SVG.' },
+    { name: 'PNG (Bitmap)', value: 'png', description: 'Maximum compatibility with older Office versions.' }
+  ];
+
+  const placements: { name: string, value: DiagramPlacement, description: string }[] = [
+    { name: 'Center', value: 'center', description: "Centered on the slide at natural size, shrunk to fit inside the slide's content area if needed." },
+    { name: 'Fit to Slide', value: 'fit', description: "Scaled to fill the slide's content area." },
+    { name: 'Selected Shape', value: 'selection', description: 'Fitted to the selected shape or placeholder. Centers on the slide when nothing is selected.' },
+    { name: 'Natural Size', value: 'natural', description: 'Rendered size at the top-left of the slide, with no scaling.' }
+  ];
+
+  const securityLevels: { name: string, value: MermaidSecurityLevel, description: string }[] = [
+    { name: 'Strict', value: 'strict', description: 'HTML in labels is encoded as text and click interactions are disabled. Recommended.' },
+    { name: 'Sandbox', value: 'sandbox', description: 'Diagrams are rendered inside their own sandboxed frame. Click interactions and some diagram features are unavailable.' },
+    { name: 'Anti-script', value: 'antiscript', description: 'HTML is allowed in labels with scripts removed. Click interactions are disabled.' },
+    { name: 'Loose', value: 'loose', description: 'HTML in labels and click interactions are allowed. Only use with diagram code you trust.' }
+  ];
+
+  const slideSizes: { name: string, value: SlideSize }[] = [
+    { name: 'Widescreen (16:9)', value: 'widescreen' },
+    { name: 'Standard (4:3)', value: 'standard' }
+  ];
+
+  const textWraps: { name: string, value: WordTextWrap, description: string }[] = [
+    { name: 'In Line', value: 'inline', description: 'Placed in its own paragraph and moves with the text.' },
+    { name: 'Square', value: 'square', description: 'Floating, with text wrapping around its sides.' },
+    { name: 'Top and Bottom', value: 'topBottom', description: 'Floating, with text above and below but not beside it.' },
+    { name: 'Behind Text', value: 'behind', description: 'Floating behind the text, like a watermark.' }
+  ];
+
+  const anchorPositions: { name: string, value: WordAnchorPosition }[] = [
+    { name: 'Left', value: 'left' },
+    { name: 'Center', value: 'center' },
+    { name: 'Right', value: 'right' }
+  ];
+
   useEffect(() => {
     generatePreview();
   }, [localSettings]);
 
   const generatePreview = async () => {
     try {
-      const { default: mermaid } = await import('mermaid');
-      
-      // Configure mermaid with current settings
-      mermaid.initialize({
-        startOnLoad: false,
-        theme: localSettings.theme === 'custom' ? 'base' : localSettings.theme,
-        themeVariables: localSettings.theme === 'custom' ? {
-          primaryColor: localSettings.primaryColor,
-          primaryTextColor: localSettings.primaryTextColor,
-          primaryBorderColor: localSettings.primaryBorderColor,
-          lineColor: localSettings.lineColor,
-          secondaryColor: localSettings.secondaryColor,
-          tertiaryColor: localSettings.tertiaryColor,
-          fontFamily: localSettings.fontFamily,
-          fontSize: `${localSettings.fontSize}px`
-        } : {},
-        securityLevel: 'loose',
-        fontFamily: localSettings.fontFamily
-      });
-
       const previewCode = `graph TD
     A[Settings Preview] --> B{Theme: ${localSettings.theme}}
     B --> C[Font: ${localSettings.fontFamily}]
     C --> D[Size: ${localSettings.fontSize}px]`;
 
-      const { svg } = await mermaid.render('settings-preview', previewCode);
+      // Rendered with the unsaved settings, leaving the editor's configuration alone
+      const svg = await renderDiagram(previewCode, { config: mermaidConfigFromSettings(localSettings) });
       setPreviewSvg(svg);
     } catch (error) {
       console.error('Preview generation failed:', error);
@@ -186,7 +182,7 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSettingsChange, onClose
           }}
         >
           {previewSvg ? (
-            <div dangerouslySetInnerHTML={{ __html: previewSvg }} />
+            <SvgImage svg={previewSvg} alt="Settings preview" />
           ) : (
             <span style={{ color: '#605e5c' }}>Generating preview...</span>
           )}
@@ -258,6 +254,263 @@ const Settings: React.FC<SettingsProps> = ({ settings, onSettingsChange, onClose
         </div>
       </div>
 
+      {/* Insertion Format */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>🖼️ Insertion Format</h3>
+        <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+          {insertionFormats.map(format => (
+            <button
+              key={format.value}
+              onClick={() => handleSettingChange('insertionFormat', format.value)}
+              title={format.description}
+              style={{
+                padding: '8px 16px',
+                border: `2px solid ${localSettings.insertionFormat === format.value ? '#0078d4' : '#edebe9'}`,
+                borderRadius: '4px',
+                background: localSettings.insertionFormat === format.value ? '#f3f2f1' : 'white',
+                cursor: 'pointer',
+                color: '#323130'
+              }}
+            >
+              {format.name}
+            </button>
+          ))}
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          {insertionFormats.find(format => format.value === localSettings.insertionFormat)?.description}
+        </div>
+      </div>
+
+      {/* Slide Placement */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>📐 Slide Placement (PowerPoint)</h3>
+        <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+          {placements.map(placement => (
+            <button
+              key={placement.value}
+              onClick={() => handleSettingChange('placement', placement.value)}
+              title={placement.description}
+              style={{
+                padding: '8px 16px',
+                border: `2px solid ${localSettings.placement === placement.value ? '#0078d4' : '#edebe9'}`,
+                borderRadius: '4px',
+                background: localSettings.placement === placement.value ? '#f3f2f1' : 'white',
+                cursor: 'pointer',
+                color: '#323130'
+              }}
+            >
+              {placement.name}
+            </button>
+          ))}
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px', marginBottom: '15px' }}>
+          {placements.find(placement => placement.value === localSettings.placement)?.description}
+        </div>
+
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#323130', fontSize: '12px' }}>
+              Slide Size:
+            </label>
+            <select
+              value={localSettings.slideSize}
+              onChange={(e) => handleSettingChange('slideSize', e.target.value as SlideSize)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '1px solid #edebe9',
+                borderRadius: '4px',
+                fontSize: '14px'
+              }}
+            >
+              {slideSizes.map(size => (
+                <option key={size.value} value={size.value}>{size.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#323130', fontSize: '12px' }}>
+              Margin: {localSettings.slideMargin}pt
+            </label>
+            <input
+              type="range"
+              min="0"
+              max="96"
+              step="6"
+              value={localSettings.slideMargin}
+              onChange={(e) => handleSettingChange('slideMargin', parseInt(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          Center and Fit to Slide use the area the slide master's placeholders cover, so they follow the presentation's own slide size. PowerPoint doesn't tell add-ins the slide size itself: the size and margin above are only used when the slide master can't be read.
+        </div>
+      </div>
+
+      {/* Word Diagram Size */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>📏 Diagram Size (Word)</h3>
+        <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '15px' }}>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#323130', fontSize: '12px' }}>
+              Max Width: {localSettings.wordMaxWidthPercent}% of column
+            </label>
+            <input
+              type="range"
+              min="20"
+              max="100"
+              step="5"
+              value={localSettings.wordMaxWidthPercent}
+              onChange={(e) => handleSettingChange('wordMaxWidthPercent', parseInt(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#323130', fontSize: '12px' }}>
+              Max Height: {localSettings.wordMaxHeightPercent}% of page
+            </label>
+            <input
+              type="range"
+              min="20"
+              max="100"
+              step="5"
+              value={localSettings.wordMaxHeightPercent}
+              onChange={(e) => handleSettingChange('wordMaxHeightPercent', parseInt(e.target.value))}
+              style={{ width: '100%' }}
+            />
+          </div>
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          Diagrams are sized to the page and column they are inserted into. Each diagram keeps its limits when updated.
+        </div>
+      </div>
+
+      {/* Word Layout */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>📰 Text Wrapping (Word)</h3>
+        <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+          {textWraps.map(wrap => (
+            <button
+              key={wrap.value}
+              onClick={() => handleSettingChange('wordTextWrap', wrap.value)}
+              title={wrap.description}
+              style={{
+                padding: '8px 16px',
+                border: `2px solid ${localSettings.wordTextWrap === wrap.value ? '#0078d4' : '#edebe9'}`,
+                borderRadius: '4px',
+                background: localSettings.wordTextWrap === wrap.value ? '#f3f2f1' : 'white',
+                cursor: 'pointer',
+                color: '#323130'
+              }}
+            >
+              {wrap.name}
+            </button>
+          ))}
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px', marginBottom: '15px' }}>
+          {textWraps.find(wrap => wrap.value === localSettings.wordTextWrap)?.description}
+        </div>
+
+        {localSettings.wordTextWrap !== 'inline' && (
+          <div>
+            <label style={{ display: 'block', marginBottom: '5px', color: '#323130', fontSize: '12px' }}>
+              Position in Column:
+            </label>
+            <select
+              value={localSettings.wordAnchorPosition}
+              onChange={(e) => handleSettingChange('wordAnchorPosition', e.target.value as WordAnchorPosition)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                border: '1px solid #edebe9',
+                borderRadius: '4px',
+                fontSize: '14px'
+              }}
+            >
+              {anchorPositions.map(position => (
+                <option key={position.value} value={position.value}>{position.name}</option>
+              ))}
+            </select>
+            <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+              Floating diagrams are anchored to the paragraph at the cursor and need Word for Windows or Mac. Other versions insert them in line.
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Word Captions */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>🏷️ Figure Captions (Word)</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#323130' }}>
+          <input
+            type="checkbox"
+            checked={localSettings.wordCaptions}
+            onChange={(e) => handleSettingChange('wordCaptions', e.target.checked)}
+          />
+          Add a "Figure N: title" caption below new diagrams
+        </label>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          The title comes from the diagram's title or accTitle and follows it when the diagram is updated. Captions are added to in-line diagrams only.
+        </div>
+      </div>
+
+      {/* Editor */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>⌨️ Editor</h3>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '13px', color: '#323130' }}>
+          <input
+            type="checkbox"
+            checked={localSettings.livePreview}
+            onChange={(e) => handleSettingChange('livePreview', e.target.checked)}
+          />
+          Update the preview as you type
+        </label>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          The preview refreshes after a short pause in typing. Diagrams that take more than a few seconds to render pause it until you click Update Preview.
+        </div>
+      </div>
+
+      {/* Security */}
+      <div style={{ marginBottom: '25px' }}>
+        <h3 style={{ color: '#323130', marginBottom: '10px' }}>🛡️ Security</h3>
+        <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+          {securityLevels.map(level => {
+            const allowed = isSecurityLevelAllowed(level.value);
+            return (
+              <button
+                key={level.value}
+                onClick={() => handleSettingChange('securityLevel', level.value)}
+                disabled={!allowed}
+                title={allowed ? level.description : 'Not allowed by your organization\'s security policy'}
+                style={{
+                  padding: '8px 16px',
+                  border: `2px solid ${localSettings.securityLevel === level.value ? '#0078d4' : '#edebe9'}`,
+                  borderRadius: '4px',
+                  background: localSettings.securityLevel === level.value ? '#f3f2f1' : 'white',
+                  cursor: allowed ? 'pointer' : 'not-allowed',
+                  color: allowed ? '#323130' : '#a19f9d'
+                }}
+              >
+                {level.name}
+              </button>
+            );
+          })}
+        </div>
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px', marginBottom: '10px' }}>
+          {securityLevels.find(level => level.value === localSettings.securityLevel)?.description}
+        </div>
+        {securityPolicy.minimumSecurityLevel && (
+          <div style={{ fontSize: '12px', color: '#605e5c' }}>
+            🔒 Your organization requires at least {securityLevels.find(level => level.value === securityPolicy.minimumSecurityLevel)?.name}.
+            {!isSecurityLevelAllowed(localSettings.securityLevel) && ` This document's level is looser, so its diagrams render at ${securityLevels.find(level => level.value === effectiveSecurityLevel(localSettings.securityLevel))?.name}.`}
+          </div>
+        )}
+        <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px' }}>
+          Whatever the level, scripts, event handlers and script links are removed from diagrams before they are inserted, downloaded or copied.
+        </div>
+      </div>
+
       {/* Color Settings - Only show for custom theme */}
       {localSettings.theme === 'custom' && (
         <div style={{ marginBottom: '25px' }}>
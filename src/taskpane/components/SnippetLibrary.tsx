@@ -0,0 +1,315 @@
+import * as React from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { Snippet, SnippetScope, createSnippet, mergeSnippets, removeSnippet, exportSnippetsJson, parseSnippetsJson } from '../utils/snippetLibrary';
+
+interface SnippetLibraryProps {
+  scopes: SnippetScope[]; // Libraries this host can keep
+  selection: string; // Editor selection when the library was opened
+  onLoad: (scope: SnippetScope) => Promise<Snippet[]>;
+  onSave: (scope: SnippetScope, snippets: Snippet[]) => Promise<void>;
+  onInsert: (snippet: Snippet) => void;
+  onClose: () => void;
+}
+
+const scopeNames: { [scope in SnippetScope]: { name: string, description: string } } = {
+  document: { name: '📄 This Document', description: 'Saved in this document, for everyone who edits it.' },
+  user: { name: '👤 My Snippets', description: 'Saved with your add-in settings, for all your documents.' }
+};
+
+const actionButtonStyle = (backgroundColor: string, disabled = false): React.CSSProperties => ({
+  padding: '4px 8px',
+  border: 'none',
+  borderRadius: '3px',
+  backgroundColor: disabled ? '#ccc' : backgroundColor,
+  color: 'white',
+  cursor: disabled ? 'not-allowed' : 'pointer',
+  fontSize: '12px'
+});
+
+const toolbarButtonStyle = (disabled = false): React.CSSProperties => ({
+  padding: '10px 20px',
+  border: '1px solid #edebe9',
+  borderRadius: '4px',
+  background: 'white',
+  color: '#323130',
+  cursor: disabled ? 'not-allowed' : 'pointer'
+});
+
+const SnippetLibrary: React.FC<SnippetLibraryProps> = ({ scopes, selection, onLoad, onSave, onInsert, onClose }) => {
+  const [scope, setScope] = useState<SnippetScope>(scopes[0]);
+  const [snippets, setSnippets] = useState<Snippet[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [pendingDeleteName, setPendingDeleteName] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      setIsLoading(true);
+      setSnippets([]);
+      setError('');
+      try {
+        const loaded = await onLoad(scope);
+        if (!cancelled) {
+          setSnippets(loaded);
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load snippets');
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    };
+
+    load();
+    setPendingDeleteName(null);
+    setMessage('');
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  // Save a changed library, showing the new list only once it's stored
+  const store = async (updated: Snippet[], successMessage: string) => {
+    setIsSaving(true);
+    setError('');
+    setMessage('');
+    try {
+      await onSave(scope, updated);
+      setSnippets(updated);
+      setMessage(successMessage);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save snippets');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSelection = async () => {
+    const snippetName = name.trim();
+    const replacing = snippets.some(snippet => snippet.name.toLowerCase() === snippetName.toLowerCase());
+    await store(mergeSnippets(snippets, [createSnippet(snippetName, selection)]), replacing ? `Replaced "${snippetName}"` : `Saved "${snippetName}"`);
+    setName('');
+  };
+
+  const handleDelete = async (snippet: Snippet) => {
+    setPendingDeleteName(null);
+    await store(removeSnippet(snippets, snippet.name), `Deleted "${snippet.name}"`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files[0];
+    e.target.value = ''; // Choosing the same file again should import it again
+    if (!file) {
+      return;
+    }
+    try {
+      const imported = parseSnippetsJson(await file.text());
+      await store(mergeSnippets(snippets, imported), `Imported ${imported.length} snippet(s) from ${file.name}`);
+    } catch (err) {
+      setError(`Could not import ${file.name}: ${err instanceof Error ? err.message : 'unknown error'}`);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSnippetsJson(snippets)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mermaid-snippets-${scope}.json`;
+    link.style.display = 'none';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const isBusy = isLoading || isSaving;
+  const canSave = !isBusy && selection.trim().length > 0 && name.trim().length > 0;
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>✂️ Snippets</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Library */}
+      <div style={{ display: 'flex', gap: '10px', flexWrap: 'wrap' }}>
+        {scopes.map(option => (
+          <button
+            key={option}
+            onClick={() => setScope(option)}
+            disabled={isSaving}
+            style={{
+              padding: '8px 16px',
+              border: `2px solid ${scope === option ? '#0078d4' : '#edebe9'}`,
+              borderRadius: '4px',
+              background: scope === option ? '#f3f2f1' : 'white',
+              cursor: 'pointer',
+              color: '#323130'
+            }}
+          >
+            {scopeNames[option].name}
+          </button>
+        ))}
+      </div>
+      <div style={{ fontSize: '12px', color: '#605e5c', marginTop: '8px', marginBottom: '15px' }}>
+        {scopeNames[scope].description}
+      </div>
+
+      {/* Save Selection */}
+      <div style={{ display: 'flex', gap: '8px', marginBottom: '6px' }}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && canSave) {
+              handleSaveSelection();
+            }
+          }}
+          placeholder="Snippet name"
+          style={{
+            flex: 1,
+            padding: '8px',
+            border: '1px solid #edebe9',
+            borderRadius: '4px',
+            fontSize: '14px'
+          }}
+        />
+        <button onClick={handleSaveSelection} disabled={!canSave} style={actionButtonStyle('#28a745', !canSave)}>
+          💾 Save Selection
+        </button>
+      </div>
+      <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '15px' }}>
+        {selection.trim()
+          ? `Saves the ${selection.split('\n').length} selected line(s). A snippet with the same name is replaced.`
+          : 'Select code in the editor to save it as a snippet.'}
+      </div>
+
+      {error && (
+        <div style={{ fontSize: '12px', color: '#b31d28', marginBottom: '10px' }}>{error}</div>
+      )}
+      {message && (
+        <div style={{ fontSize: '12px', color: '#155724', marginBottom: '10px' }}>{message}</div>
+      )}
+
+      {/* Snippet List */}
+      {isLoading ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>Loading snippets...</div>
+      ) : snippets.length === 0 ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>No snippets yet.</div>
+      ) : (
+        <div style={{ border: '1px solid #edebe9', borderRadius: '4px' }}>
+          {snippets.map(snippet => (
+            <div key={snippet.name} style={{ padding: '10px 12px', borderBottom: '1px solid #edebe9' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '8px' }}>
+                <div style={{ fontSize: '13px', fontWeight: '600', color: '#323130', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                  {snippet.name}
+                </div>
+                {pendingDeleteName === snippet.name ? (
+                  <div style={{ display: 'flex', gap: '6px', alignItems: 'center', fontSize: '12px', color: '#b31d28', flexShrink: 0 }}>
+                    Delete?
+                    <button onClick={() => handleDelete(snippet)} disabled={isBusy} style={actionButtonStyle('#dc3545', isBusy)}>
+                      Delete
+                    </button>
+                    <button onClick={() => setPendingDeleteName(null)} style={actionButtonStyle('#6c757d')}>
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                    <button onClick={() => onInsert(snippet)} title="Insert at the cursor in the editor" style={actionButtonStyle('#0078d4')}>
+                      ➕ Insert
+                    </button>
+                    <button onClick={() => setPendingDeleteName(snippet.name)} disabled={isBusy} title="Delete this snippet" style={actionButtonStyle('#dc3545', isBusy)}>
+                      🗑️
+                    </button>
+                  </div>
+                )}
+              </div>
+              <pre style={{
+                margin: '6px 0 0 0',
+                padding: '6px',
+                backgroundColor: '#f8f9fa',
+                borderRadius: '3px',
+                fontSize: '11px',
+                fontFamily: 'Consolas, Monaco, monospace',
+                color: '#323130',
+                maxHeight: '60px',
+                overflow: 'hidden',
+                whiteSpace: 'pre'
+              }}>
+                {snippet.code}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '10px', justifyContent: 'flex-end', paddingTop: '20px', marginTop: '20px', borderTop: '1px solid #edebe9' }}>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+        <button
+          onClick={() => fileInputRef.current && fileInputRef.current.click()}
+          disabled={isBusy}
+          title="Add the snippets from an exported file to this library"
+          style={toolbarButtonStyle(isBusy)}
+        >
+          📂 Import
+        </button>
+        <button
+          onClick={handleExport}
+          disabled={isBusy || snippets.length === 0}
+          title="Save this library as a JSON file to share"
+          style={toolbarButtonStyle(isBusy || snippets.length === 0)}
+        >
+          💾 Export
+        </button>
+        <button
+          onClick={onClose}
+          style={{
+            padding: '10px 20px',
+            border: 'none',
+            borderRadius: '4px',
+            background: '#0078d4',
+            color: 'white',
+            cursor: 'pointer',
+            fontWeight: '600'
+          }}
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SnippetLibrary;
@@ -0,0 +1,30 @@
+import * as React from 'react';
+import { svgImageSource } from '../utils/renderService';
+
+interface SvgImageProps {
+  svg: string;
+  alt: string;
+  style?: React.CSSProperties;
+}
+
+// Width the diagram was laid out at, so small diagrams aren't stretched to fill the pane
+const naturalWidth = (svg: string): number | null => {
+  const viewBox = svg.match(/viewBox\s*=\s*["']([^"']+)["']/);
+  const width = viewBox ? parseFloat(viewBox[1].trim().split(/[\s,]+/)[2]) : NaN;
+  return width > 0 ? width : null;
+};
+
+// Rendered diagrams are shown as images rather than inline markup, so scripts,
+// event handlers and HTML labels in a diagram never run in the task pane
+const SvgImage: React.FC<SvgImageProps> = ({ svg, alt, style }) => {
+  const width = naturalWidth(svg);
+  return (
+    <img
+      src={svgImageSource(svg)}
+      alt={alt}
+      style={{ display: 'block', width: '100%', maxWidth: width ? `${width}px` : '100%', height: 'auto', ...style }}
+    />
+  );
+};
+
+export default SvgImage;
@@ -0,0 +1,186 @@
+import * as React from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { DiagramTemplate, searchTemplates } from '../utils/diagramTemplates';
+import SvgImage from './SvgImage';
+
+interface TemplateGalleryProps {
+  templates: DiagramTemplate[];
+  renderThumbnail: (code: string) => Promise<string>;
+  onUse: (template: DiagramTemplate) => void;
+  onClose: () => void;
+}
+
+const ALL_CATEGORIES = 'All';
+
+const TemplateGallery: React.FC<TemplateGalleryProps> = ({ templates, renderThumbnail, onUse, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [thumbnails, setThumbnails] = useState<{ [templateId: string]: string | null }>({});
+
+  const categories = useMemo(() => {
+    return [ALL_CATEGORIES, ...Array.from(new Set(templates.map(template => template.category)))];
+  }, [templates]);
+
+  const visibleTemplates = useMemo(() => {
+    const matching = searchTemplates(templates, query);
+    return category === ALL_CATEGORIES ? matching : matching.filter(template => template.category === category);
+  }, [templates, query, category]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Render thumbnails one after another, like the diagram list
+    const renderAll = async () => {
+      for (const template of templates) {
+        if (cancelled) {
+          return;
+        }
+        try {
+          const svg = await renderThumbnail(template.code);
+          if (!cancelled) {
+            setThumbnails(previous => ({ ...previous, [template.id]: svg }));
+          }
+        } catch (error) {
+          console.log('Thumbnail render failed for template:', template.id, error);
+          if (!cancelled) {
+            setThumbnails(previous => ({ ...previous, [template.id]: null }));
+          }
+        }
+      }
+    };
+
+    setThumbnails({});
+    renderAll();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [templates]);
+
+  return (
+    <div style={{ padding: '20px', maxHeight: '600px', overflowY: 'auto' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '20px' }}>
+        <h2 style={{ margin: 0, color: '#323130' }}>🧩 Diagram Templates</h2>
+        <button
+          onClick={onClose}
+          style={{
+            background: 'none',
+            border: 'none',
+            fontSize: '20px',
+            cursor: 'pointer',
+            color: '#605e5c'
+          }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* Search and Categories */}
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="Search templates"
+        autoFocus
+        style={{
+          width: '100%',
+          padding: '8px',
+          border: '1px solid #edebe9',
+          borderRadius: '4px',
+          fontSize: '14px',
+          marginBottom: '10px',
+          boxSizing: 'border-box'
+        }}
+      />
+      <div style={{ display: 'flex', gap: '6px', flexWrap: 'wrap', marginBottom: '15px' }}>
+        {categories.map(name => (
+          <button
+            key={name}
+            onClick={() => setCategory(name)}
+            style={{
+              padding: '4px 10px',
+              border: `2px solid ${category === name ? '#0078d4' : '#edebe9'}`,
+              borderRadius: '12px',
+              background: category === name ? '#f3f2f1' : 'white',
+              cursor: 'pointer',
+              color: '#323130',
+              fontSize: '12px'
+            }}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      {visibleTemplates.length === 0 ? (
+        <div style={{ color: '#605e5c', fontStyle: 'italic' }}>No templates match your search.</div>
+      ) : (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(160px, 1fr))', gap: '12px' }}>
+          {visibleTemplates.map(template => (
+            <div
+              key={template.id}
+              style={{
+                display: 'flex',
+                flexDirection: 'column',
+                border: '1px solid #edebe9',
+                borderRadius: '4px',
+                padding: '8px'
+              }}
+            >
+              {/* Thumbnail */}
+              <div style={{
+                height: '90px',
+                marginBottom: '8px',
+                border: '1px solid #edebe9',
+                borderRadius: '3px',
+                backgroundColor: 'white',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                overflow: 'hidden',
+                fontSize: '11px',
+                color: '#a19f9d'
+              }}>
+                {thumbnails[template.id] ? (
+                  <SvgImage
+                    svg={thumbnails[template.id]!}
+                    alt={`${template.name} template`}
+                    style={{ width: '100%', height: '100%', maxWidth: '100%', objectFit: 'contain' }}
+                  />
+                ) : thumbnails[template.id] === null ? 'No preview' : '...'}
+              </div>
+
+              {/* Details */}
+              <div style={{ fontSize: '13px', fontWeight: '600', color: '#323130' }}>
+                {template.name}
+              </div>
+              <div style={{ fontSize: '11px', color: '#605e5c', marginBottom: '4px' }}>
+                {template.category}{template.source === 'team' && ' • 👥 Team'}
+              </div>
+              <div style={{ fontSize: '12px', color: '#605e5c', marginBottom: '8px', flex: 1 }}>
+                {template.description}
+              </div>
+              <button
+                onClick={() => onUse(template)}
+                title="Replace the editor code with this template"
+                style={{
+                  padding: '4px 8px',
+                  border: 'none',
+                  borderRadius: '3px',
+                  backgroundColor: '#0078d4',
+                  color: 'white',
+                  cursor: 'pointer',
+                  fontSize: '12px'
+                }}
+              >
+                Use Template
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TemplateGallery;
@@ -0,0 +1,379 @@
+// Generate Mermaid chart code from tabular data - an Excel range or pasted CSV/TSV.
+// Each template maps columns of the table to parts of one diagram type.
+
+export type DataTemplate = 'pie' | 'xychart' | 'gantt' | 'flowchart';
+
+// Parts of a diagram a column can fill
+export type DataColumnRole = 'label' | 'value' | 'line' | 'task' | 'section' | 'start' | 'end' | 'source' | 'target' | 'edgeLabel';
+
+// Column index for each role the template uses
+export type DataColumnMapping = { [role in DataColumnRole]?: number };
+
+export interface DataTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface DataImportOptions {
+  template: DataTemplate;
+  columns: DataColumnMapping;
+  title?: string;
+}
+
+interface DataTemplateRole {
+  role: DataColumnRole;
+  name: string;
+  optional?: boolean;
+}
+
+export const dataTemplates: { [template in DataTemplate]: { name: string, roles: DataTemplateRole[] } } = {
+  pie: {
+    name: 'Pie chart',
+    roles: [
+      { role: 'label', name: 'Slice label' },
+      { role: 'value', name: 'Slice value' }
+    ]
+  },
+  xychart: {
+    name: 'Bar/line chart',
+    roles: [
+      { role: 'label', name: 'X-axis category' },
+      { role: 'value', name: 'Bar value' },
+      { role: 'line', name: 'Line value', optional: true }
+    ]
+  },
+  gantt: {
+    name: 'Gantt chart',
+    roles: [
+      { role: 'task', name: 'Task name' },
+      { role: 'start', name: 'Start date' },
+      { role: 'end', name: 'End date or duration', optional: true },
+      { role: 'section', name: 'Section', optional: true }
+    ]
+  },
+  flowchart: {
+    name: 'Flowchart from edges',
+    roles: [
+      { role: 'source', name: 'From node' },
+      { role: 'target', name: 'To node' },
+      { role: 'edgeLabel', name: 'Edge label', optional: true }
+    ]
+  }
+};
+
+// Split CSV, TSV or semicolon-separated text into cells, honouring quoted fields.
+// The delimiter is taken from the first line: tab if it has one, otherwise whichever of , and ; is more common.
+export const parseDelimitedText = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.includes('\t')
+    ? '\t'
+    : (firstLine.split(';').length > firstLine.split(',').length ? ';' : ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const character = text[i];
+
+    if (inQuotes) {
+      if (character === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (character === '"') {
+        inQuotes = false;
+      } else {
+        cell += character;
+      }
+    } else if (character === '"' && cell.length === 0) {
+      inQuotes = true;
+    } else if (character === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (character === '\n' || character === '\r') {
+      if (character === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += character;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+const columnLetter = (index: number): string => {
+  let letter = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letter = String.fromCharCode(65 + (remaining - 1) % 26) + letter;
+  }
+  return letter;
+};
+
+// Turn raw cells into a table, dropping blank rows and padding short ones.
+// Without a header row, columns are named by letter as in a spreadsheet.
+export const toDataTable = (cells: string[][], hasHeaderRow: boolean): DataTable => {
+  const nonEmptyRows = cells
+    .map(row => row.map(cell => cell.trim()))
+    .filter(row => row.some(cell => cell.length > 0));
+  const columnCount = Math.max(0, ...nonEmptyRows.map(row => row.length));
+  const padded = nonEmptyRows.map(row => [...row, ...new Array(columnCount - row.length).fill('')]);
+
+  const headerRow = hasHeaderRow && padded.length > 0 ? padded[0] : [];
+  const headers = Array.from({ length: columnCount }, (_, index) => headerRow[index] || `Column ${columnLetter(index)}`);
+
+  return { headers, rows: hasHeaderRow ? padded.slice(1) : padded };
+};
+
+// Excel stores dates as days since 1899-12-30
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export const excelSerialToIsoDate = (serial: number): string => {
+  return new Date(EXCEL_EPOCH_MS + Math.round(serial * MS_PER_DAY)).toISOString().substring(0, 10);
+};
+
+// A number format shows a date when it has day, month or year codes outside quoted text
+const isDateNumberFormat = (numberFormat: string): boolean => {
+  return /[dmy]/i.test(numberFormat.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, ''));
+};
+
+// Text of each cell in an Excel range: dates as ISO dates, other numbers unformatted,
+// everything else as displayed
+export const rangeCellsToText = (values: any[][], numberFormats: any[][], text: string[][]): string[][] => {
+  return values.map((row, rowIndex) => row.map((value, columnIndex) => {
+    if (typeof value === 'number') {
+      const numberFormat = String(numberFormats[rowIndex]?.[columnIndex] ?? '');
+      return isDateNumberFormat(numberFormat) ? excelSerialToIsoDate(value) : String(value);
+    }
+    return text[rowIndex]?.[columnIndex] ?? String(value ?? '');
+  }));
+};
+
+// Accept "1,200", "$15", "42%" and the like
+const parseNumber = (value: string): number | null => {
+  const cleaned = value.replace(/[,\s$€£%]/g, '');
+  if (cleaned.length === 0) {
+    return null;
+  }
+  const number = Number(cleaned);
+  return isNaN(number) ? null : number;
+};
+
+const toIsoDate = (value: string): string | null => {
+  const isoMatch = value.match(/^(\d{4}-\d{2}-\d{2})/);
+  if (isoMatch) {
+    return isoMatch[1];
+  }
+  // Date.parse accepts almost anything ending in a number, so only try strings shaped like a date
+  const looksLikeDate = /^\d{1,4}[/.-]\d{1,2}[/.-]\d{1,4}$/.test(value) ||
+    /^(\d{1,2} )?[A-Za-z]{3,9}\.?( \d{1,2},?)? \d{4}$/.test(value);
+  if (!looksLikeDate) {
+    return null;
+  }
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) {
+    return null;
+  }
+  const date = new Date(timestamp);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Mermaid gantt durations such as "3d" or "2w"
+const DURATION_PATTERN = /^\d+(\.\d+)?[dwhm]$/i;
+
+// Pick a sensible column for each role: numbers for values, dates for start/end, text for the rest
+export const guessColumnMapping = (table: DataTable, template: DataTemplate): DataColumnMapping => {
+  const columnIndexes = table.headers.map((_, index) => index);
+  const columnValues = (index: number) => table.rows.map(row => row[index]).filter(value => value.length > 0);
+  const isNumeric = (index: number) => columnValues(index).length > 0 && columnValues(index).every(value => parseNumber(value) !== null);
+  const isDate = (index: number) => columnValues(index).length > 0 && !isNumeric(index) && columnValues(index).every(value => toIsoDate(value) !== null);
+
+  const numericColumns = columnIndexes.filter(isNumeric);
+  const dateColumns = columnIndexes.filter(isDate);
+  const textColumns = columnIndexes.filter(index => !numericColumns.includes(index) && !dateColumns.includes(index));
+  const firstText = textColumns.length > 0 ? textColumns[0] : 0;
+
+  switch (template) {
+    case 'pie':
+      return { label: firstText, value: numericColumns[0] ?? Math.min(1, columnIndexes.length - 1) };
+    case 'xychart':
+      return { label: firstText, value: numericColumns[0] ?? Math.min(1, columnIndexes.length - 1), line: numericColumns[1] };
+    case 'gantt': {
+      const start = dateColumns[0] ?? Math.min(1, columnIndexes.length - 1);
+      // End columns often mix dates and durations, so accept any column of those
+      const isEnd = (index: number) => index !== start && index !== firstText && columnValues(index).length > 0 &&
+        columnValues(index).every(value => toIsoDate(value) !== null || parseNumber(value) !== null || DURATION_PATTERN.test(value));
+      const end = columnIndexes.find(isEnd);
+      return {
+        task: firstText,
+        start,
+        end,
+        section: textColumns.find(index => index !== firstText && index !== end)
+      };
+    }
+    case 'flowchart':
+    default:
+      return { source: 0, target: Math.min(1, columnIndexes.length - 1), edgeLabel: columnIndexes.length > 2 ? 2 : undefined };
+  }
+};
+
+// Characters that end a label or start a comment in these diagram types
+const sanitizeText = (value: string): string => value.replace(/[:;#]/g, ' ').replace(/\s+/g, ' ').trim();
+// Chart strings can't escape quotes, flowchart labels take the #quot; entity
+const quoteText = (value: string): string => `"${value.replace(/"/g, "'")}"`;
+const quoteLabel = (value: string): string => `"${value.replace(/"/g, '#quot;')}"`;
+// Front matter is YAML, where a double-quoted string escapes backslashes and quotes
+const quoteYaml = (value: string): string => `"${value.replace(/[\r\n]/g, ' ').replace(/[\\"]/g, '\\$&')}"`;
+
+const generatePie = (table: DataTable, columns: DataColumnMapping, title: string): string => {
+  const lines = [title ? `pie title ${sanitizeText(title)}` : 'pie'];
+  table.rows.forEach(row => {
+    const value = parseNumber(row[columns.value!]);
+    if (row[columns.label!] && value !== null) {
+      lines.push(`    ${quoteText(row[columns.label!])} : ${value}`);
+    }
+  });
+  if (lines.length === 1) {
+    throw new Error('No rows with a label and a numeric value were found');
+  }
+  return lines.join('\n');
+};
+
+const generateXyChart = (table: DataTable, columns: DataColumnMapping, title: string): string => {
+  const rows = table.rows.filter(row => row[columns.label!] && parseNumber(row[columns.value!]) !== null);
+  if (rows.length === 0) {
+    throw new Error('No rows with a category and a numeric value were found');
+  }
+
+  const series = (column: number) => `[${rows.map(row => parseNumber(row[column]) ?? 0).join(', ')}]`;
+  const lines = ['xychart-beta'];
+  if (title) {
+    lines.push(`    title ${quoteText(title)}`);
+  }
+  lines.push(`    x-axis [${rows.map(row => quoteText(row[columns.label!])).join(', ')}]`);
+  lines.push(`    y-axis ${quoteText(table.headers[columns.value!])}`);
+  lines.push(`    bar ${series(columns.value!)}`);
+  if (columns.line !== undefined) {
+    lines.push(`    line ${series(columns.line)}`);
+  }
+  return lines.join('\n');
+};
+
+// The end column may hold a date, a number of days or a Mermaid duration such as "2w"
+const ganttEnd = (value: string): string => {
+  if (DURATION_PATTERN.test(value)) {
+    return value.toLowerCase();
+  }
+  const days = parseNumber(value);
+  if (days !== null) {
+    return `${days}d`;
+  }
+  return toIsoDate(value) || '1d';
+};
+
+const generateGantt = (table: DataTable, columns: DataColumnMapping, title: string): string => {
+  const lines = ['gantt', '    dateFormat YYYY-MM-DD'];
+  if (title) {
+    lines.push(`    title ${sanitizeText(title)}`);
+  }
+
+  let currentSection: string | null = null;
+  let taskCount = 0;
+  table.rows.forEach((row, index) => {
+    const task = sanitizeText(row[columns.task!] || '');
+    const start = toIsoDate(row[columns.start!] || '');
+    if (!task) {
+      return;
+    }
+    if (!start) {
+      throw new Error(`Row ${index + 1}: "${row[columns.start!]}" is not a date`);
+    }
+
+    if (columns.section !== undefined) {
+      const section = sanitizeText(row[columns.section] || '') || currentSection || 'Tasks';
+      if (section !== currentSection) {
+        lines.push(`    section ${section}`);
+        currentSection = section;
+      }
+    }
+
+    const end = columns.end !== undefined ? ganttEnd(row[columns.end] || '') : '1d';
+    lines.push(`    ${task} : ${start}, ${end}`);
+    taskCount++;
+  });
+
+  if (taskCount === 0) {
+    throw new Error('No rows with a task name were found');
+  }
+  return lines.join('\n');
+};
+
+const generateFlowchart = (table: DataTable, columns: DataColumnMapping, title: string): string => {
+  const nodeIds = new Map<string, string>();
+  const nodeId = (name: string): string => {
+    if (!nodeIds.has(name)) {
+      nodeIds.set(name, `n${nodeIds.size + 1}`);
+    }
+    return nodeIds.get(name)!;
+  };
+
+  const edges: string[] = [];
+  table.rows.forEach(row => {
+    const source = row[columns.source!];
+    const target = row[columns.target!];
+    if (!source) {
+      return;
+    }
+    nodeId(source);
+    if (target) {
+      const label = columns.edgeLabel !== undefined ? row[columns.edgeLabel] : '';
+      edges.push(`    ${nodeId(source)} -->${label ? `|${quoteLabel(label)}|` : ''} ${nodeId(target)}`);
+    }
+  });
+
+  if (nodeIds.size === 0) {
+    throw new Error('No rows with a source node were found');
+  }
+
+  const lines = title ? ['---', `title: ${quoteYaml(title)}`, '---'] : [];
+  lines.push('flowchart LR');
+  nodeIds.forEach((id, name) => lines.push(`    ${id}[${quoteLabel(name)}]`));
+  return [...lines, ...edges].join('\n');
+};
+
+// Generate editable Mermaid code from the table. Throws when a required column is missing
+// or no row holds usable data.
+export const generateDiagramCode = (table: DataTable, options: DataImportOptions): string => {
+  if (table.rows.length === 0) {
+    throw new Error('The data has no rows');
+  }
+  dataTemplates[options.template].roles.forEach(({ role, name, optional }) => {
+    const column = options.columns[role];
+    if (!optional && (column === undefined || column < 0 || column >= table.headers.length)) {
+      throw new Error(`Choose a column for "${name}"`);
+    }
+  });
+
+  const title = (options.title || '').trim();
+  switch (options.template) {
+    case 'pie':
+      return generatePie(table, options.columns, title);
+    case 'xychart':
+      return generateXyChart(table, options.columns, title);
+    case 'gantt':
+      return generateGantt(table, options.columns, title);
+    case 'flowchart':
+      return generateFlowchart(table, options.columns, title);
+  }
+};
@@ -0,0 +1,36 @@
+import { parseDiagramXml, serializeDiagramRecord, findOrphanedRecords, DIAGRAM_SCHEMA_VERSION } from './diagramMetadata';
+
+// A part as the original Word inserter wrote it: no namespace, schemaVersion or ShapeTagged
+const legacyWordXml = `<?xml version="1.0" encoding="UTF-8"?>
+<MermaidDiagram>
+  <Id>mermaid_1700000000000_abc123def</Id>
+  <Code><![CDATA[graph TD
+    A --> B]]></Code>
+  <CreatedAt>2024-01-15T10:00:00.000Z</CreatedAt>
+</MermaidDiagram>`;
+
+describe('legacy Word diagram records', () => {
+  it('migrates to the current schema', () => {
+    const legacy = parseDiagramXml(legacyWordXml)!;
+    expect(legacy.needsMigration).toBe(true);
+    expect(legacy.record.shapeTagged).toBe(false);
+
+    const migrated = parseDiagramXml(serializeDiagramRecord(legacy.record))!;
+    expect(migrated.needsMigration).toBe(false);
+    expect(migrated.schemaVersion).toBe(DIAGRAM_SCHEMA_VERSION);
+    expect(migrated.record.code).toBe('graph TD\n    A --> B');
+  });
+
+  it('is purged once its picture is gone', () => {
+    const migrated = parseDiagramXml(serializeDiagramRecord(parseDiagramXml(legacyWordXml)!.record))!.record;
+
+    // Word tags every picture through its alt text, so the record is orphaned without one
+    expect(findOrphanedRecords([migrated], [], true)).toEqual([migrated]);
+    expect(findOrphanedRecords([migrated], [migrated.id], true)).toEqual([]);
+  });
+
+  it('is kept in PowerPoint, where an untagged picture may still be on a slide', () => {
+    const record = parseDiagramXml(legacyWordXml)!.record;
+    expect(findOrphanedRecords([record], [], false)).toEqual([]);
+  });
+});
@@ -0,0 +1,532 @@
+/* global OfficeExtension */
+
+import { DataImportOptions, DataTemplate, DataColumnRole, DataColumnMapping, dataTemplates } from './dataImport';
+
+// Diagram metadata stored in <MermaidDiagram> custom XML parts.
+// Every read and write of diagram metadata goes through this module so that
+// PowerPoint and Word always see the same document shape.
+
+export const DIAGRAM_METADATA_NAMESPACE = 'http://schemas.accionlabs.com/mermaid-office-addin/diagram';
+
+// Version 1: un-namespaced parts written by earlier releases (no schemaVersion attribute)
+// Version 2: namespaced parts with a schemaVersion attribute
+export const DIAGRAM_SCHEMA_VERSION = 2;
+
+// Image format used when placing a diagram into the document
+export type DiagramImageFormat = 'svg' | 'png';
+
+// Older revisions beyond this are dropped so the document doesn't grow without bound
+export const MAX_DIAGRAM_REVISIONS = 50;
+
+// One saved version of a diagram's source
+export interface DiagramRevision {
+  timestamp: string;
+  code: string;
+  author?: string;
+  note?: string;
+}
+
+// The slide placeholder a diagram was inserted into. Updates keep fitting the diagram to these bounds.
+export interface PlaceholderBinding {
+  placeholderType: string;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Word size limits chosen when the diagram was inserted, as percentages of the
+// column width and page text height. Updates re-apply them.
+export interface DiagramSizeLimits {
+  maxWidthPercent: number;
+  maxHeightPercent: number;
+}
+
+// How a Word diagram sits in the text. Inline pictures flow with the text; the other
+// wraps are floating pictures anchored to the paragraph they were inserted into.
+export type WordTextWrap = 'inline' | 'square' | 'topBottom' | 'behind';
+
+// Horizontal position of a floating diagram within its text column
+export type WordAnchorPosition = 'left' | 'center' | 'right';
+
+export interface WordLayout {
+  wrap: WordTextWrap;
+  anchorPosition: WordAnchorPosition;
+}
+
+// The data a diagram's code was generated from. Refreshing regenerates the code from the
+// current data - a workbook range is read again (Excel only), embedded CSV is used as stored.
+export interface DataBinding extends DataImportOptions {
+  source: 'range' | 'csv';
+  address?: string; // Range bindings - "Sheet1!A:D", read through its used range
+  csv?: string; // CSV bindings - the data itself
+  hasHeaderRow: boolean;
+}
+
+export interface DiagramRecord {
+  id: string;
+  code: string;
+  createdAt: string;
+  updatedAt?: string;
+  imageFormat: DiagramImageFormat;
+  shapeTagged: boolean;
+  shapeInfo?: string; // "left,top,width,height" captured when tagging was unavailable
+  placeholderBinding?: PlaceholderBinding;
+  sizeLimits?: DiagramSizeLimits;
+  layout?: WordLayout; // Word only - missing for inline diagrams inserted before layouts existed
+  dataBinding?: DataBinding;
+  revisions: DiagramRevision[]; // Oldest first - the last entry matches the current code
+}
+
+export interface ParsedDiagramXml {
+  record: DiagramRecord;
+  schemaVersion: number;
+  needsMigration: boolean;
+}
+
+// Escape text for an element body or attribute value
+export const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+// A CDATA section cannot contain "]]>" - split it across two sections instead.
+// Parsers concatenate adjacent sections, so textContent returns the original text.
+export const escapeCData = (text: string): string => {
+  return text.split(']]>').join(']]]]><![CDATA[>');
+};
+
+const cdata = (text: string): string => `<![CDATA[${escapeCData(text)}]]>`;
+
+const serializeRevision = (revision: DiagramRevision): string => {
+  const attributes = [`timestamp="${escapeXml(revision.timestamp)}"`];
+  if (revision.author) {
+    attributes.push(`author="${escapeXml(revision.author)}"`);
+  }
+
+  const note = revision.note ? `<Note>${escapeXml(revision.note)}</Note>` : '';
+  return `    <Revision ${attributes.join(' ')}>${note}<Code>${cdata(revision.code)}</Code></Revision>`;
+};
+
+const serializeDataBinding = (binding: DataBinding): string => {
+  const attributes = [
+    `source="${binding.source}"`,
+    `template="${binding.template}"`,
+    `hasHeaderRow="${binding.hasHeaderRow}"`
+  ];
+  if (binding.address) {
+    attributes.push(`address="${escapeXml(binding.address)}"`);
+  }
+  if (binding.title) {
+    attributes.push(`title="${escapeXml(binding.title)}"`);
+  }
+
+  const columns = (Object.keys(binding.columns) as DataColumnRole[])
+    .filter(role => binding.columns[role] !== undefined)
+    .map(role => `<Column role="${role}" index="${binding.columns[role]}" />`);
+  const csv = binding.csv !== undefined ? `<Csv>${cdata(binding.csv)}</Csv>` : '';
+
+  return `  <DataBinding ${attributes.join(' ')}>${columns.join('')}${csv}</DataBinding>`;
+};
+
+export const serializeDiagramRecord = (record: DiagramRecord): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<MermaidDiagram xmlns="${DIAGRAM_METADATA_NAMESPACE}" schemaVersion="${DIAGRAM_SCHEMA_VERSION}">`,
+    `  <Id>${escapeXml(record.id)}</Id>`,
+    `  <Code>${cdata(record.code)}</Code>`,
+    `  <ImageFormat>${record.imageFormat}</ImageFormat>`,
+    `  <ShapeTagged>${record.shapeTagged}</ShapeTagged>`
+  ];
+
+  if (record.shapeInfo) {
+    lines.push(`  <ShapeInfo>${escapeXml(record.shapeInfo)}</ShapeInfo>`);
+  }
+
+  if (record.placeholderBinding) {
+    const binding = record.placeholderBinding;
+    lines.push(`  <PlaceholderBinding type="${escapeXml(binding.placeholderType)}" left="${binding.left}" top="${binding.top}" width="${binding.width}" height="${binding.height}" />`);
+  }
+
+  if (record.sizeLimits) {
+    lines.push(`  <SizeLimits maxWidthPercent="${record.sizeLimits.maxWidthPercent}" maxHeightPercent="${record.sizeLimits.maxHeightPercent}" />`);
+  }
+
+  if (record.layout) {
+    lines.push(`  <Layout wrap="${record.layout.wrap}" anchorPosition="${record.layout.anchorPosition}" />`);
+  }
+
+  if (record.dataBinding) {
+    lines.push(serializeDataBinding(record.dataBinding));
+  }
+
+  lines.push(`  <CreatedAt>${escapeXml(record.createdAt)}</CreatedAt>`);
+
+  if (record.updatedAt) {
+    lines.push(`  <UpdatedAt>${escapeXml(record.updatedAt)}</UpdatedAt>`);
+  }
+
+  if (record.revisions.length > 0) {
+    lines.push('  <Revisions>');
+    record.revisions.forEach(revision => lines.push(serializeRevision(revision)));
+    lines.push('  </Revisions>');
+  }
+
+  lines.push('</MermaidDiagram>');
+  return lines.join('\n');
+};
+
+// Look up a direct child by local name so namespaced and legacy parts read the same way
+const childElement = (parent: Element, localName: string): Element | null => {
+  for (let i = 0; i < parent.children.length; i++) {
+    if (parent.children[i].localName === localName) {
+      return parent.children[i];
+    }
+  }
+  return null;
+};
+
+const childText = (parent: Element, localName: string): string | null => {
+  const element = childElement(parent, localName);
+  return element ? element.textContent : null;
+};
+
+const parsePlaceholderBinding = (root: Element): PlaceholderBinding | undefined => {
+  const bindingElement = childElement(root, 'PlaceholderBinding');
+  if (!bindingElement) {
+    return undefined;
+  }
+
+  const number = (name: string) => parseFloat(bindingElement.getAttribute(name) || '');
+  const binding = {
+    placeholderType: bindingElement.getAttribute('type') || 'Unknown',
+    left: number('left'),
+    top: number('top'),
+    width: number('width'),
+    height: number('height')
+  };
+
+  return [binding.left, binding.top, binding.width, binding.height].some(isNaN) ? undefined : binding;
+};
+
+const parseSizeLimits = (root: Element): DiagramSizeLimits | undefined => {
+  const limitsElement = childElement(root, 'SizeLimits');
+  if (!limitsElement) {
+    return undefined;
+  }
+
+  const maxWidthPercent = parseFloat(limitsElement.getAttribute('maxWidthPercent') || '');
+  const maxHeightPercent = parseFloat(limitsElement.getAttribute('maxHeightPercent') || '');
+  return isNaN(maxWidthPercent) || isNaN(maxHeightPercent) ? undefined : { maxWidthPercent, maxHeightPercent };
+};
+
+const wordTextWraps: WordTextWrap[] = ['inline', 'square', 'topBottom', 'behind'];
+const wordAnchorPositions: WordAnchorPosition[] = ['left', 'center', 'right'];
+
+const parseLayout = (root: Element): WordLayout | undefined => {
+  const layoutElement = childElement(root, 'Layout');
+  if (!layoutElement) {
+    return undefined;
+  }
+
+  const wrap = layoutElement.getAttribute('wrap') as WordTextWrap;
+  const anchorPosition = layoutElement.getAttribute('anchorPosition') as WordAnchorPosition;
+  return wordTextWraps.includes(wrap)
+    ? { wrap, anchorPosition: wordAnchorPositions.includes(anchorPosition) ? anchorPosition : 'center' }
+    : undefined;
+};
+
+const parseDataBinding = (root: Element): DataBinding | undefined => {
+  const bindingElement = childElement(root, 'DataBinding');
+  if (!bindingElement) {
+    return undefined;
+  }
+
+  const source = bindingElement.getAttribute('source');
+  const template = bindingElement.getAttribute('template') as DataTemplate;
+  if ((source !== 'range' && source !== 'csv') || !dataTemplates[template]) {
+    return undefined;
+  }
+
+  const columns: DataColumnMapping = {};
+  for (let i = 0; i < bindingElement.children.length; i++) {
+    const columnElement = bindingElement.children[i];
+    const index = parseInt(columnElement.getAttribute('index') || '');
+    if (columnElement.localName === 'Column' && !isNaN(index)) {
+      columns[columnElement.getAttribute('role') as DataColumnRole] = index;
+    }
+  }
+
+  return {
+    source,
+    template,
+    columns,
+    hasHeaderRow: bindingElement.getAttribute('hasHeaderRow') !== 'false',
+    address: bindingElement.getAttribute('address') || undefined,
+    title: bindingElement.getAttribute('title') || undefined,
+    csv: childText(bindingElement, 'Csv') ?? undefined
+  };
+};
+
+const parseRevisions = (root: Element): DiagramRevision[] => {
+  const revisionsElement = childElement(root, 'Revisions');
+  if (!revisionsElement) {
+    return [];
+  }
+
+  const revisions: DiagramRevision[] = [];
+  for (let i = 0; i < revisionsElement.children.length; i++) {
+    const revisionElement = revisionsElement.children[i];
+    if (revisionElement.localName !== 'Revision') {
+      continue;
+    }
+
+    revisions.push({
+      timestamp: revisionElement.getAttribute('timestamp') || '',
+      code: childText(revisionElement, 'Code') || '',
+      author: revisionElement.getAttribute('author') || undefined,
+      note: childText(revisionElement, 'Note') || undefined
+    });
+  }
+
+  return revisions;
+};
+
+// Parse any version of a <MermaidDiagram> part. Returns null for parts that are not diagram metadata.
+export const parseDiagramXml = (xml: string): ParsedDiagramXml | null => {
+  if (!xml || !xml.includes('MermaidDiagram')) {
+    return null;
+  }
+
+  const xmlDoc = new DOMParser().parseFromString(xml, 'text/xml');
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    console.log('Diagram metadata parse error:', xmlDoc.getElementsByTagName('parsererror')[0].textContent);
+    return null;
+  }
+
+  const root = xmlDoc.documentElement;
+  if (!root || root.localName !== 'MermaidDiagram') {
+    return null;
+  }
+
+  const id = childText(root, 'Id');
+  if (!id) {
+    return null;
+  }
+
+  const schemaVersion = parseInt(root.getAttribute('schemaVersion') || '1') || 1;
+  const createdAt = childText(root, 'CreatedAt');
+  const updatedAt = childText(root, 'UpdatedAt');
+
+  const record: DiagramRecord = {
+    id,
+    code: childText(root, 'Code') || '',
+    // Version 1 updates dropped CreatedAt - the last update time is the best we have
+    createdAt: createdAt || updatedAt || new Date().toISOString(),
+    updatedAt: updatedAt || undefined,
+    // Version 1 parts were always inserted as PNG
+    imageFormat: childText(root, 'ImageFormat') === 'svg' ? 'svg' : 'png',
+    shapeTagged: childText(root, 'ShapeTagged') === 'true',
+    shapeInfo: childText(root, 'ShapeInfo') || undefined,
+    placeholderBinding: parsePlaceholderBinding(root),
+    sizeLimits: parseSizeLimits(root),
+    layout: parseLayout(root),
+    dataBinding: parseDataBinding(root),
+    revisions: parseRevisions(root)
+  };
+
+  // Diagrams saved before history was kept start with their current code as the only revision
+  if (record.revisions.length === 0) {
+    record.revisions.push({ timestamp: record.updatedAt || record.createdAt, code: record.code });
+  }
+
+  return {
+    record,
+    schemaVersion,
+    needsMigration: schemaVersion < DIAGRAM_SCHEMA_VERSION || root.namespaceURI !== DIAGRAM_METADATA_NAMESPACE
+  };
+};
+
+// Create the record for a newly inserted diagram, with its first revision
+export const createDiagramRecord = (
+  id: string,
+  code: string,
+  fields: Partial<Omit<DiagramRecord, 'id' | 'code' | 'revisions'>> = {}
+): DiagramRecord => {
+  const createdAt = fields.createdAt || new Date().toISOString();
+  return {
+    imageFormat: 'png',
+    shapeTagged: false,
+    ...fields,
+    id,
+    code,
+    createdAt,
+    revisions: [{ timestamp: createdAt, code, note: 'Created' }]
+  };
+};
+
+// Return a copy of the record with new code, recording the change as a revision.
+// Saving unchanged code without a note (e.g. re-rendering with new settings) only bumps updatedAt.
+// A dataBinding of null unlinks the diagram from its data; leaving it out keeps the current one.
+export const withRevision = (
+  record: DiagramRecord,
+  code: string,
+  details: { author?: string, note?: string, dataBinding?: DataBinding | null } = {}
+): DiagramRecord => {
+  const timestamp = new Date().toISOString();
+  const dataBinding = details.dataBinding === undefined ? record.dataBinding : details.dataBinding || undefined;
+  if (code === record.code && !details.note) {
+    return { ...record, dataBinding, updatedAt: timestamp };
+  }
+
+  const revisions = [...record.revisions, { timestamp, code, author: details.author, note: details.note }];
+
+  return {
+    ...record,
+    code,
+    dataBinding,
+    updatedAt: timestamp,
+    revisions: revisions.slice(-MAX_DIAGRAM_REVISIONS)
+  };
+};
+
+// Copy a record under a new ID so a duplicated shape becomes an independent diagram.
+// The history is kept, with a revision noting where the copy came from.
+export const forkDiagramRecord = (record: DiagramRecord, id: string): DiagramRecord => {
+  const timestamp = new Date().toISOString();
+  const revisions = [...record.revisions, { timestamp, code: record.code, note: `Copied from ${record.id}` }];
+
+  return {
+    ...record,
+    id,
+    createdAt: timestamp,
+    updatedAt: undefined,
+    revisions: revisions.slice(-MAX_DIAGRAM_REVISIONS)
+  };
+};
+
+// Records whose diagram is gone. Word and Excel tag every picture through its alt text and Outlook
+// through its content ID, so any record there without a placed picture is orphaned - including
+// legacy records, which never stored ShapeTagged. PowerPoint records only count when tagging
+// succeeded: an untagged record's picture can still be on a slide, just not findable.
+export const findOrphanedRecords = (records: DiagramRecord[], placedIds: string[], everyShapeTagged: boolean): DiagramRecord[] => {
+  return records.filter(record => (everyShapeTagged || record.shapeTagged) && !placedIds.includes(record.id));
+};
+
+// Minimal shape shared by PowerPoint.CustomXmlPart and Word.CustomXmlPart
+export interface CustomXmlPartLike {
+  getXml(): OfficeExtension.ClientResult<string>;
+  delete(): void;
+}
+
+export interface CustomXmlPartCollectionLike<TPart extends CustomXmlPartLike> {
+  items: TPart[];
+  load(propertyNames?: string | string[]): unknown;
+  add(xml: string): unknown;
+}
+
+export interface SyncContext {
+  sync(): Promise<unknown>;
+}
+
+interface DiagramPartEntry<TPart extends CustomXmlPartLike> {
+  part: TPart;
+  parsed: ParsedDiagramXml;
+}
+
+const readDiagramParts = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>
+): Promise<DiagramPartEntry<TPart>[]> => {
+  customXmlParts.load('items');
+  await context.sync();
+
+  const entries: DiagramPartEntry<TPart>[] = [];
+
+  for (let i = 0; i < customXmlParts.items.length; i++) {
+    const part = customXmlParts.items[i];
+    try {
+      const xml = part.getXml();
+      await context.sync();
+
+      const parsed = parseDiagramXml(xml.value);
+      if (parsed) {
+        entries.push({ part, parsed });
+      }
+    } catch (error) {
+      // Skip parts we can't read
+      continue;
+    }
+  }
+
+  return entries;
+};
+
+// Load every diagram record in the document. Reads never write: older parts are parsed as they
+// are, and a legacy part is rewritten in the current schema when its diagram is next saved.
+export const loadDiagramRecords = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>
+): Promise<DiagramRecord[]> => {
+  const entries = await readDiagramParts(context, customXmlParts);
+  return entries.map(entry => entry.parsed.record);
+};
+
+export const findDiagramRecord = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>,
+  diagramId: string
+): Promise<DiagramRecord | null> => {
+  const records = await loadDiagramRecords(context, customXmlParts);
+  return records.find(record => record.id === diagramId) || null;
+};
+
+// Write a record, replacing any existing part for the same diagram ID - this is also where
+// legacy parts are migrated, since the replacement is always written in the current schema
+export const saveDiagramRecord = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>,
+  record: DiagramRecord
+): Promise<void> => {
+  const entries = await readDiagramParts(context, customXmlParts);
+
+  entries
+    .filter(entry => entry.parsed.record.id === record.id)
+    .forEach(entry => entry.part.delete());
+
+  customXmlParts.add(serializeDiagramRecord(record));
+  await context.sync();
+  console.log('Diagram metadata saved for ID:', record.id);
+};
+
+// Remove every part for a diagram ID. Returns false if none existed.
+export const deleteDiagramRecord = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>,
+  diagramId: string
+): Promise<boolean> => {
+  return (await deleteDiagramRecords(context, customXmlParts, [diagramId])) > 0;
+};
+
+// Remove the parts for several diagram IDs, reading the parts once and deleting them in one sync.
+// Returns how many of the IDs had a part.
+export const deleteDiagramRecords = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>,
+  diagramIds: string[]
+): Promise<number> => {
+  if (diagramIds.length === 0) {
+    return 0;
+  }
+
+  const entries = (await readDiagramParts(context, customXmlParts))
+    .filter(entry => diagramIds.includes(entry.parsed.record.id));
+
+  entries.forEach(entry => entry.part.delete());
+  await context.sync();
+
+  return new Set(entries.map(entry => entry.parsed.record.id)).size;
+};
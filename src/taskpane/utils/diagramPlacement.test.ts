@@ -0,0 +1,30 @@
+import { masterContentArea, marginContentArea, calculateSlidePlacement } from './diagramPlacement';
+
+describe('slide content area', () => {
+  // Title, body and footer placeholders of the default 16:9 Office theme
+  const officeThemePlaceholders = [
+    { left: 66, top: 28.75, width: 828, height: 104.5 },
+    { left: 66, top: 143.75, width: 828, height: 342.25 },
+    { left: 66, top: 500.5, width: 216, height: 28.75 },
+    { left: 318, top: 500.5, width: 324, height: 28.75 },
+    { left: 678, top: 500.5, width: 216, height: 28.75 }
+  ];
+
+  it('covers the slide master placeholders', () => {
+    expect(masterContentArea(officeThemePlaceholders)).toEqual({ left: 66, top: 28.75, width: 828, height: 500.5 });
+  });
+
+  it('is null without placeholders that span the slide', () => {
+    expect(masterContentArea([])).toBeNull();
+    expect(masterContentArea([{ left: 66, top: 500.5, width: 828, height: 28.75 }])).toBeNull();
+  });
+
+  it('falls back to the chosen slide size inside the margin', () => {
+    expect(marginContentArea('standard', 36)).toEqual({ left: 36, top: 36, width: 648, height: 468 });
+  });
+
+  it('fits diagrams to the content area', () => {
+    const area = masterContentArea(officeThemePlaceholders)!;
+    expect(calculateSlidePlacement(1656, 500, 'fit', area, null)).toEqual({ left: 66, top: 154, width: 828, height: 250 });
+  });
+});
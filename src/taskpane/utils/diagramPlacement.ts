@@ -0,0 +1,125 @@
+// Where and how large a new diagram is placed on a PowerPoint slide.
+// All values are in points, the unit used by the PowerPoint shapes API.
+
+// center    - natural size, scaled down only if it would not fit inside the slide's content area
+// fit       - scaled up or down to fill the slide's content area
+// selection - fitted to the bounds of the selected shape or placeholder (falls back to center)
+// natural   - natural size at the top-left corner, as earlier versions did
+export type DiagramPlacement = 'center' | 'fit' | 'selection' | 'natural';
+
+export type SlideSize = 'widescreen' | 'standard';
+
+export interface PlacementBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// 13.333in x 7.5in (16:9) and 10in x 7.5in (4:3). Office.js has no API for a presentation's slide size,
+// so these are only the fallback for when the slide master can't be read
+export const slideDimensions: { [size in SlideSize]: { width: number, height: number } } = {
+  widescreen: { width: 960, height: 540 },
+  standard: { width: 720, height: 540 }
+};
+
+// Placeholders must span at least this much (points) to be taken as the slide's content area
+const MIN_MASTER_AREA_SIZE = 100;
+
+// The area the slide master's placeholders cover - title, body and footers. Templates lay these
+// out inside the slide's own margins, so this follows the real slide size and design. Null when
+// there are no placeholders or they don't span enough of the slide to place a diagram in.
+export const masterContentArea = (placeholderBounds: PlacementBounds[]): PlacementBounds | null => {
+  if (placeholderBounds.length === 0) {
+    return null;
+  }
+
+  const left = Math.min(...placeholderBounds.map(bounds => bounds.left));
+  const top = Math.min(...placeholderBounds.map(bounds => bounds.top));
+  const right = Math.max(...placeholderBounds.map(bounds => bounds.left + bounds.width));
+  const bottom = Math.max(...placeholderBounds.map(bounds => bounds.top + bounds.height));
+
+  if (right - left < MIN_MASTER_AREA_SIZE || bottom - top < MIN_MASTER_AREA_SIZE) {
+    return null;
+  }
+  return { left, top, width: right - left, height: bottom - top };
+};
+
+// The area inside the margins of a slide of the chosen size, for when the master can't be read
+export const marginContentArea = (slideSize: SlideSize, margin: number): PlacementBounds => {
+  const slide = slideDimensions[slideSize];
+  return {
+    left: margin,
+    top: margin,
+    width: Math.max(slide.width - margin * 2, 1),
+    height: Math.max(slide.height - margin * 2, 1)
+  };
+};
+
+// Offset used by the natural placement, matching where diagrams were always inserted
+const NATURAL_PLACEMENT_OFFSET = 50;
+
+// Scale a width/height into a box keeping the aspect ratio, centered within the box
+export const fitWithin = (width: number, height: number, box: PlacementBounds, allowUpscale: boolean): PlacementBounds => {
+  let scale = Math.min(box.width / width, box.height / height);
+  if (!allowUpscale) {
+    scale = Math.min(scale, 1);
+  }
+
+  const fittedWidth = width * scale;
+  const fittedHeight = height * scale;
+
+  return {
+    left: Math.round(box.left + (box.width - fittedWidth) / 2),
+    top: Math.round(box.top + (box.height - fittedHeight) / 2),
+    width: Math.round(fittedWidth),
+    height: Math.round(fittedHeight)
+  };
+};
+
+// Reshape bounds to a new aspect ratio around the same centre, keeping the area. Updates use this
+// so a diagram whose proportions changed isn't stretched, and changing back restores the old frame.
+export const resizeToAspect = (bounds: PlacementBounds, width: number, height: number): PlacementBounds => {
+  if (width <= 0 || height <= 0 || bounds.width <= 0 || bounds.height <= 0) {
+    return bounds;
+  }
+
+  const area = bounds.width * bounds.height;
+  const resizedWidth = Math.sqrt(area * width / height);
+  const resizedHeight = Math.sqrt(area * height / width);
+
+  return {
+    left: Math.round(bounds.left + (bounds.width - resizedWidth) / 2),
+    top: Math.round(bounds.top + (bounds.height - resizedHeight) / 2),
+    width: Math.round(resizedWidth),
+    height: Math.round(resizedHeight)
+  };
+};
+
+export const calculateSlidePlacement = (
+  naturalWidth: number,
+  naturalHeight: number,
+  placement: DiagramPlacement,
+  contentArea: PlacementBounds,
+  selectedBounds: PlacementBounds | null
+): PlacementBounds => {
+  if (naturalWidth <= 0 || naturalHeight <= 0) {
+    return contentArea;
+  }
+
+  switch (placement) {
+    case 'natural':
+      return { left: NATURAL_PLACEMENT_OFFSET, top: NATURAL_PLACEMENT_OFFSET, width: naturalWidth, height: naturalHeight };
+    case 'fit':
+      return fitWithin(naturalWidth, naturalHeight, contentArea, true);
+    case 'selection':
+      if (selectedBounds && selectedBounds.width > 0 && selectedBounds.height > 0) {
+        return fitWithin(naturalWidth, naturalHeight, selectedBounds, true);
+      }
+      console.log('No shape selected for selection placement, centering on slide instead');
+      return fitWithin(naturalWidth, naturalHeight, contentArea, false);
+    case 'center':
+    default:
+      return fitWithin(naturalWidth, naturalHeight, contentArea, false);
+  }
+};
@@ -0,0 +1,290 @@
+// Starting points for new diagrams: the built-in gallery plus templates a team registers in
+// src/taskpane/templates/teamTemplates.json, which is bundled into the add-in at build time
+
+import { detectDiagramType } from './mermaidSyntax';
+import teamTemplateFile from '../templates/teamTemplates.json';
+
+export interface DiagramTemplate {
+  id: string;
+  name: string;
+  category: string; // Diagram type the gallery groups it under, e.g. "Sequence"
+  description: string;
+  code: string;
+  tags: string[]; // Extra search words
+  source: 'built-in' | 'team';
+}
+
+type TemplateDefinition = Omit<DiagramTemplate, 'category' | 'tags' | 'source'> & { tags?: string[] };
+
+const builtInDefinitions: TemplateDefinition[] = [
+  {
+    id: 'flowchart-decision',
+    name: 'Decision Flow',
+    description: 'A process with a yes/no decision that rejoins at the end.',
+    tags: ['process', 'workflow'],
+    code: `graph TD
+    A[Start] --> B{Decision}
+    B -->|Yes| C[Action 1]
+    B -->|No| D[Action 2]
+    C --> E[End]
+    D --> E`
+  },
+  {
+    id: 'sequence-login',
+    name: 'Login Sequence',
+    description: 'A user signing in through a web app and an identity provider.',
+    tags: ['authentication', 'api', 'messages'],
+    code: `sequenceDiagram
+    actor User
+    participant App as Web App
+    participant IdP as Identity Provider
+    User->>App: Open sign-in page
+    App->>IdP: Redirect with auth request
+    IdP-->>User: Ask for credentials
+    User->>IdP: Submit credentials
+    alt Credentials valid
+        IdP-->>App: Authorization code
+        App-->>User: Signed in
+    else Credentials invalid
+        IdP-->>User: Show error
+    end`
+  },
+  {
+    id: 'class-orders',
+    name: 'Order Model',
+    description: 'Classes with attributes, methods, inheritance and associations.',
+    tags: ['uml', 'domain model', 'objects'],
+    code: `classDiagram
+    class Customer {
+        +String name
+        +String email
+        +placeOrder() Order
+    }
+    class Order {
+        +Date created
+        +OrderStatus status
+        +total() Decimal
+    }
+    class OrderLine {
+        +int quantity
+        +Decimal price
+    }
+    class PriorityOrder {
+        +Date deliverBy
+    }
+    Customer "1" --> "*" Order : places
+    Order "1" *-- "1..*" OrderLine : contains
+    Order <|-- PriorityOrder`
+  },
+  {
+    id: 'state-ticket',
+    name: 'Ticket Lifecycle',
+    description: 'States of a support ticket from opened to closed.',
+    tags: ['status', 'workflow', 'state machine'],
+    code: `stateDiagram-v2
+    [*] --> Open
+    Open --> InProgress : assigned
+    InProgress --> Waiting : needs info
+    Waiting --> InProgress : info received
+    InProgress --> Resolved : fixed
+    Resolved --> Open : reopened
+    Resolved --> Closed : confirmed
+    Closed --> [*]`
+  },
+  {
+    id: 'er-shop',
+    name: 'Shop Database',
+    description: 'Tables with keys and one-to-many relationships.',
+    tags: ['database', 'schema', 'tables', 'entity relationship'],
+    code: `erDiagram
+    CUSTOMER ||--o{ ORDER : places
+    ORDER ||--|{ ORDER_LINE : contains
+    PRODUCT ||--o{ ORDER_LINE : "ordered in"
+    CUSTOMER {
+        int id PK
+        string name
+        string email
+    }
+    ORDER {
+        int id PK
+        int customer_id FK
+        date created
+    }
+    ORDER_LINE {
+        int order_id FK
+        int product_id FK
+        int quantity
+    }
+    PRODUCT {
+        int id PK
+        string name
+        decimal price
+    }`
+  },
+  {
+    id: 'gantt-project',
+    name: 'Project Plan',
+    description: 'Phases and dependent tasks on a timeline, with a milestone.',
+    tags: ['schedule', 'roadmap', 'plan'],
+    code: `gantt
+    title Project Plan
+    dateFormat YYYY-MM-DD
+    section Design
+        Requirements      :done, req, 2025-01-06, 10d
+        Architecture      :active, arch, after req, 7d
+    section Build
+        Implementation    :impl, after arch, 20d
+        Testing           :test, after impl, 10d
+    section Launch
+        Release           :milestone, after test, 0d`
+  },
+  {
+    id: 'c4-context',
+    name: 'System Context',
+    description: 'A C4 context diagram: people, the system and its external dependencies.',
+    tags: ['architecture', 'c4 model', 'context'],
+    code: `C4Context
+    title System Context for the Online Shop
+    Person(customer, "Customer", "Buys products online")
+    System(shop, "Online Shop", "Lets customers browse and order products")
+    System_Ext(payments, "Payment Provider", "Handles card payments")
+    System_Ext(email, "Email Service", "Sends order confirmations")
+    Rel(customer, shop, "Orders products using")
+    Rel(shop, payments, "Takes payments through")
+    Rel(shop, email, "Sends emails using")`
+  },
+  {
+    id: 'mindmap-planning',
+    name: 'Brainstorm',
+    description: 'A central idea with branching topics.',
+    tags: ['ideas', 'brainstorming', 'topics'],
+    code: `mindmap
+  root((Product Launch))
+    Marketing
+      Campaign
+      Social media
+    Sales
+      Pricing
+      Partners
+    Support
+      Documentation
+      Training`
+  },
+  {
+    id: 'timeline-history',
+    name: 'Company Milestones',
+    description: 'Events grouped by year.',
+    tags: ['history', 'events', 'chronology'],
+    code: `timeline
+    title Company Milestones
+    2021 : Founded
+         : First customer
+    2022 : Series A
+    2023 : Opened second office
+         : 100 employees
+    2024 : International launch`
+  },
+  {
+    id: 'quadrant-priorities',
+    name: 'Priority Matrix',
+    description: 'Items placed by effort and impact in four quadrants.',
+    tags: ['matrix', 'prioritization', 'effort', 'impact'],
+    code: `quadrantChart
+    title Effort and Impact
+    x-axis Low Effort --> High Effort
+    y-axis Low Impact --> High Impact
+    quadrant-1 Plan carefully
+    quadrant-2 Do first
+    quadrant-3 Fill in
+    quadrant-4 Avoid
+    Search: [0.3, 0.8]
+    Dark mode: [0.2, 0.3]
+    Offline sync: [0.8, 0.75]
+    Legacy export: [0.7, 0.2]`
+  },
+  {
+    id: 'sankey-budget',
+    name: 'Budget Flow',
+    description: 'Amounts flowing from sources to destinations.',
+    tags: ['flow', 'budget', 'distribution'],
+    code: `sankey-beta
+
+Revenue,Salaries,450
+Revenue,Infrastructure,150
+Revenue,Marketing,120
+Revenue,Profit,80
+Infrastructure,Cloud,100
+Infrastructure,Office,50`
+  },
+  {
+    id: 'architecture-web',
+    name: 'Web Service',
+    description: 'Services and data stores grouped in a cloud boundary.',
+    tags: ['infrastructure', 'cloud', 'services', 'topology'],
+    code: `architecture-beta
+    group cloud(cloud)[Cloud]
+
+    service gateway(internet)[Gateway] in cloud
+    service api(server)[API] in cloud
+    service db(database)[Database] in cloud
+    service storage(disk)[Storage] in cloud
+
+    gateway:R --> L:api
+    api:R --> L:db
+    api:B --> T:storage`
+  }
+];
+
+const toTemplate = (definition: TemplateDefinition, source: DiagramTemplate['source']): DiagramTemplate => ({
+  ...definition,
+  category: detectDiagramType(definition.code),
+  tags: definition.tags || [],
+  source
+});
+
+export const builtInTemplates: DiagramTemplate[] = builtInDefinitions.map(definition => toTemplate(definition, 'built-in'));
+
+// Read team templates, skipping entries without a name or code rather than failing the gallery.
+// Accepts either { "templates": [...] } or a bare array.
+export const parseTeamTemplates = (data: unknown): DiagramTemplate[] => {
+  const entries = Array.isArray(data) ? data : (data as { templates?: unknown })?.templates;
+  if (!Array.isArray(entries)) {
+    console.warn('Team templates file has no "templates" list');
+    return [];
+  }
+
+  const templates: DiagramTemplate[] = [];
+  entries.forEach((entry, index) => {
+    if (!entry || typeof entry.name !== 'string' || !entry.name.trim() || typeof entry.code !== 'string' || !entry.code.trim()) {
+      console.warn(`Skipping team template ${index + 1}: it needs a "name" and "code"`);
+      return;
+    }
+    const template = toTemplate({
+      id: `team-${typeof entry.id === 'string' && entry.id ? entry.id : index}`,
+      name: entry.name.trim(),
+      description: typeof entry.description === 'string' ? entry.description : '',
+      code: entry.code,
+      tags: Array.isArray(entry.tags) ? entry.tags.filter((tag: unknown) => typeof tag === 'string') : []
+    }, 'team');
+    if (typeof entry.category === 'string' && entry.category.trim()) {
+      template.category = entry.category.trim();
+    }
+    templates.push(template);
+  });
+  return templates;
+};
+
+// Team templates come first so a team's own starting points are the first thing people see
+export const loadTemplates = (): DiagramTemplate[] => [...parseTeamTemplates(teamTemplateFile), ...builtInTemplates];
+
+// Templates matching every word of the query in their name, category, description or tags
+export const searchTemplates = (templates: DiagramTemplate[], query: string): DiagramTemplate[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(word => word.length > 0);
+  if (words.length === 0) {
+    return templates;
+  }
+  return templates.filter(template => {
+    const text = [template.name, template.category, template.description, ...template.tags].join(' ').toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
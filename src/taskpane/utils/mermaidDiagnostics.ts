@@ -0,0 +1,225 @@
+// Turn errors thrown by mermaid.parse into diagnostics located in the editor's source.
+// Jison-based diagrams (flowchart, sequence, class...) attach a hash with the token location and
+// expected tokens; Langium-based ones (pie, gitGraph, packet...) attach the Chevrotain lexer and
+// parser errors. Both report positions in the code Mermaid actually parsed, which has the front
+// matter, comment lines and leading blank lines removed, so lines are mapped back to the source.
+
+export interface MermaidDiagnostic {
+  message: string;
+  line: number | null; // 1-based source line, null when the error has no location
+  column: number; // 1-based
+  endColumn: number | null; // Exclusive, null to mark the rest of the line
+  expected: string[];
+}
+
+// Friendlier names for the grammar tokens that come up most in "expected" lists
+const tokenNames: { [token: string]: string } = {
+  EOF: 'end of input',
+  NEWLINE: 'line break',
+  NL: 'line break',
+  SEMI: '";"',
+  SPACE: 'space',
+  COLON: '":"',
+  PIPE: '"|"',
+  NODE_STRING: 'node text',
+  STR: 'string',
+  STRING: 'string',
+  MD_STR: 'markdown string',
+  NUM: 'number',
+  NUMBER: 'number',
+  ARROW: 'arrow',
+  LINK: 'link',
+  SQS: '"["',
+  SQE: '"]"',
+  PS: '"("',
+  PE: '")"',
+  DIAMOND_START: '"{"',
+  DIAMOND_STOP: '"}"',
+  AMP: '"&"',
+  TXT: 'text',
+  ACTOR: 'participant name'
+};
+
+const tokenName = (token: string): string => {
+  const name = token.replace(/^'|'$/g, '');
+  if (tokenNames[name]) {
+    return tokenNames[name];
+  }
+  // Literal punctuation like ':' or '-)' reads better quoted
+  return /[A-Za-z]/.test(name) ? name : `"${name}"`;
+};
+
+const FRONT_MATTER = /^-{3}\s*[\n\r](.*?)[\n\r]-{3}\s*[\n\r]+/s;
+const COMMENT_LINE = /^\s*%%(?!\{)[^\n]/;
+const DIRECTIVE_LINE = /^\s*%%\{.*\}%%\s*$/;
+
+// Source line (0-based) of each line Mermaid parses, mirroring its preprocessing:
+// front matter is cut, comment lines go along with any blank lines just above them,
+// directives are blanked, and leading whitespace is trimmed
+const parsedLineSources = (code: string): { sources: number[], firstLineIndent: number } => {
+  const text = code.replace(/\r\n?/g, '\n');
+  const lines = text.split('\n');
+  const frontMatter = text.match(FRONT_MATTER);
+  const start = frontMatter ? (frontMatter[0].match(/\n/g) || []).length : 0;
+
+  const sources: number[] = [];
+  let blankLines: number[] = [];
+  for (let i = start; i < lines.length; i++) {
+    if (COMMENT_LINE.test(lines[i])) {
+      blankLines = [];
+    } else if (lines[i].trim() === '' || DIRECTIVE_LINE.test(lines[i])) {
+      blankLines.push(i);
+    } else {
+      sources.push(...blankLines, i);
+      blankLines = [];
+    }
+  }
+  sources.push(...blankLines);
+
+  while (sources.length > 0 && (lines[sources[0]].trim() === '' || DIRECTIVE_LINE.test(lines[sources[0]]))) {
+    sources.shift();
+  }
+  const firstLineIndent = sources.length > 0 ? lines[sources[0]].length - lines[sources[0]].trimStart().length : 0;
+
+  return { sources, firstLineIndent };
+};
+
+// Map a 1-based parsed line and column to the source
+const locate = (code: string, parsedLine: number, parsedColumn: number): { line: number, column: number } => {
+  const { sources, firstLineIndent } = parsedLineSources(code);
+  if (sources.length === 0) {
+    return { line: 1, column: 1 };
+  }
+  const index = Math.min(Math.max(parsedLine, 1), sources.length) - 1;
+  return {
+    line: sources[index] + 1,
+    column: parsedColumn + (index === 0 ? firstLineIndent : 0)
+  };
+};
+
+// Jison parse and lexical errors
+const jisonDiagnostics = (error: Error & { hash: any }, code: string): MermaidDiagnostic[] => {
+  const { hash } = error;
+  const expected: string[] = Array.isArray(hash.expected) ? hash.expected.map(tokenName) : [];
+
+  if (hash.loc) {
+    const start = locate(code, hash.loc.first_line, hash.loc.first_column + 1);
+    const length = hash.loc.last_line === hash.loc.first_line ? hash.loc.last_column - hash.loc.first_column : 0;
+    const found = hash.token === 'EOF' || hash.token === 1 ? 'end of input' : hash.text ? `"${hash.text}"` : tokenName(String(hash.token));
+    return [{
+      message: `Unexpected ${found}`,
+      line: start.line,
+      column: start.column,
+      endColumn: length > 0 ? start.column + length : null,
+      expected
+    }];
+  }
+
+  // Lexical errors only carry the 0-based line
+  const start = locate(code, (typeof hash.line === 'number' ? hash.line : 0) + 1, 1);
+  return [{
+    message: error.message.split('\n')[0],
+    line: start.line,
+    column: start.column,
+    endColumn: null,
+    expected
+  }];
+};
+
+// Chevrotain names the expected tokens inside its messages
+const chevrotainExpected = (message: string): string[] => {
+  // "Expecting token of type ':' but found `85`." (older releases wrap the type in --> <--)
+  const single = message.match(/^Expecting token of type (?:--> )?'?([^'\s]+)'?/);
+  if (single) {
+    return [tokenName(single[1])];
+  }
+  const sequences = message.match(/\[[^\]]+\]/g) || [];
+  const firstTokens = sequences.map(sequence => tokenName(sequence.slice(1, -1).split(',')[0].trim()));
+  return firstTokens.filter((token, index) => firstTokens.indexOf(token) === index);
+};
+
+// Langium lexer and parser errors
+const langiumDiagnostics = (result: { lexerErrors: any[], parserErrors: any[] }, code: string): MermaidDiagnostic[] => {
+  const lexerDiagnostics = result.lexerErrors.map((lexerError): MermaidDiagnostic => {
+    const start = locate(code, lexerError.line || 1, lexerError.column || 1);
+    return {
+      message: 'Unexpected character',
+      line: start.line,
+      column: start.column,
+      endColumn: lexerError.length ? start.column + lexerError.length : null,
+      expected: []
+    };
+  });
+
+  const parserDiagnostics = result.parserErrors.map((parserError): MermaidDiagnostic => {
+    const token = parserError.token || {};
+    const atEnd = !token.image || isNaN(token.startLine);
+    const expected = chevrotainExpected(parserError.message || '');
+
+    if (atEnd) {
+      const lines = code.replace(/\s+$/, '').split('\n');
+      return {
+        message: 'Unexpected end of input',
+        line: lines.length,
+        column: lines[lines.length - 1].length + 1,
+        endColumn: null,
+        expected
+      };
+    }
+
+    const start = locate(code, token.startLine, token.startColumn);
+    return {
+      message: `Unexpected "${token.image}"`,
+      line: start.line,
+      column: start.column,
+      endColumn: token.startLine === token.endLine ? start.column + (token.endColumn - token.startColumn + 1) : null,
+      expected
+    };
+  });
+
+  return [...lexerDiagnostics, ...parserDiagnostics];
+};
+
+// Diagnostics for an error thrown by mermaid.parse. Errors without a location come back as a
+// single diagnostic with a null line; an unknown diagram type points at the declaration.
+export const parseErrorDiagnostics = (error: unknown, code: string): MermaidDiagnostic[] => {
+  if (!(error instanceof Error)) {
+    return [{ message: String(error || 'Invalid mermaid syntax'), line: null, column: 1, endColumn: null, expected: [] }];
+  }
+
+  const withDetails = error as Error & { hash?: any, result?: any };
+  if (withDetails.hash && typeof withDetails.hash === 'object') {
+    return jisonDiagnostics(error as Error & { hash: any }, code);
+  }
+  if (withDetails.result && Array.isArray(withDetails.result.lexerErrors) && Array.isArray(withDetails.result.parserErrors)) {
+    const diagnostics = langiumDiagnostics(withDetails.result, code);
+    if (diagnostics.length > 0) {
+      return diagnostics;
+    }
+  }
+
+  if (error.name === 'UnknownDiagramError') {
+    const start = locate(code, 1, 1);
+    const declaration = code.replace(/\r\n?/g, '\n').split('\n')[start.line - 1] || '';
+    const keyword = declaration.trim().split(/[\s:;{]/)[0];
+    return [{
+      message: `Unknown diagram type "${keyword}"`,
+      line: start.line,
+      column: start.column,
+      endColumn: start.column + keyword.length,
+      expected: []
+    }];
+  }
+
+  return [{ message: error.message.split('\n')[0], line: null, column: 1, endColumn: null, expected: [] }];
+};
+
+// One-line summary used in the problems list and editor tooltips
+export const describeDiagnostic = (diagnostic: MermaidDiagnostic, maxExpected: number = 6): string => {
+  if (diagnostic.expected.length === 0) {
+    return diagnostic.message;
+  }
+  const shown = diagnostic.expected.slice(0, maxExpected).join(', ');
+  const more = diagnostic.expected.length > maxExpected ? ` or ${diagnostic.expected.length - maxExpected} more` : '';
+  return `${diagnostic.message} - expected ${shown}${more}`;
+};
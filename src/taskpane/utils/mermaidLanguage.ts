@@ -0,0 +1,279 @@
+// Mermaid language support for the code editor: a stream tokenizer for highlighting,
+// block-aware indentation, and completion of keywords and arrows for the diagram type being edited
+
+import { StreamLanguage, StringStream, LanguageSupport, IndentContext } from '@codemirror/language';
+import { CompletionContext, CompletionResult, Completion } from '@codemirror/autocomplete';
+import { getDiagramKeyword } from './mermaidSyntax';
+
+interface DiagramVocabulary {
+  keywords: string[];
+  arrows: { label: string, detail: string }[];
+}
+
+const flowchartVocabulary: DiagramVocabulary = {
+  keywords: ['TB', 'TD', 'BT', 'RL', 'LR', 'subgraph', 'end', 'direction', 'style', 'classDef', 'class', 'click', 'linkStyle', 'callback', 'href', 'default'],
+  arrows: [
+    { label: '-->', detail: 'arrow' },
+    { label: '---', detail: 'open link' },
+    { label: '-.->', detail: 'dotted arrow' },
+    { label: '==>', detail: 'thick arrow' },
+    { label: '--o', detail: 'circle edge' },
+    { label: '--x', detail: 'cross edge' },
+    { label: '<-->', detail: 'two-way arrow' },
+    { label: '~~~', detail: 'invisible link' },
+    { label: '-->|text|', detail: 'arrow with label' }
+  ]
+};
+
+const classVocabulary: DiagramVocabulary = {
+  keywords: ['class', 'namespace', 'direction', 'note', 'for', 'classDef', 'style', 'cssClass', 'callback', 'link', 'click', '<<interface>>', '<<abstract>>', '<<enumeration>>'],
+  arrows: [
+    { label: '<|--', detail: 'inheritance' },
+    { label: '*--', detail: 'composition' },
+    { label: 'o--', detail: 'aggregation' },
+    { label: '-->', detail: 'association' },
+    { label: '..>', detail: 'dependency' },
+    { label: '..|>', detail: 'realization' },
+    { label: '--', detail: 'solid link' },
+    { label: '..', detail: 'dashed link' }
+  ]
+};
+
+const stateVocabulary: DiagramVocabulary = {
+  keywords: ['state', 'direction', 'note', 'left of', 'right of', 'end note', '[*]', 'as', 'classDef', 'class', '<<fork>>', '<<join>>', '<<choice>>'],
+  arrows: [{ label: '-->', detail: 'transition' }]
+};
+
+const vocabularies: { [keyword: string]: DiagramVocabulary } = {
+  graph: flowchartVocabulary,
+  flowchart: flowchartVocabulary,
+  sequenceDiagram: {
+    keywords: ['participant', 'actor', 'as', 'autonumber', 'activate', 'deactivate', 'Note', 'left of', 'right of', 'over',
+      'loop', 'alt', 'else', 'opt', 'par', 'and', 'critical', 'option', 'break', 'rect', 'box', 'end', 'create', 'destroy', 'link', 'links'],
+    arrows: [
+      { label: '->>', detail: 'solid arrow' },
+      { label: '-->>', detail: 'dotted arrow' },
+      { label: '->', detail: 'solid line' },
+      { label: '-->', detail: 'dotted line' },
+      { label: '-x', detail: 'solid cross' },
+      { label: '--x', detail: 'dotted cross' },
+      { label: '-)', detail: 'async arrow' },
+      { label: '--)', detail: 'dotted async arrow' },
+      { label: '<<->>', detail: 'two-way arrow' }
+    ]
+  },
+  classDiagram: classVocabulary,
+  'classDiagram-v2': classVocabulary,
+  stateDiagram: stateVocabulary,
+  'stateDiagram-v2': stateVocabulary,
+  erDiagram: {
+    keywords: ['direction', 'PK', 'FK', 'UK', 'string', 'int', 'float', 'boolean', 'date'],
+    arrows: [
+      { label: '||--o{', detail: 'one to zero or more' },
+      { label: '||--|{', detail: 'one to one or more' },
+      { label: '||--||', detail: 'one to one' },
+      { label: '|o--o{', detail: 'zero or one to zero or more' },
+      { label: '}o--o{', detail: 'zero or more to zero or more' },
+      { label: '||..o{', detail: 'non-identifying' }
+    ]
+  },
+  gantt: {
+    keywords: ['title', 'dateFormat', 'axisFormat', 'tickInterval', 'excludes', 'includes', 'todayMarker', 'weekday', 'section', 'done', 'active', 'crit', 'milestone', 'after', 'until'],
+    arrows: []
+  },
+  pie: { keywords: ['title', 'showData'], arrows: [] },
+  journey: { keywords: ['title', 'section'], arrows: [] },
+  gitGraph: {
+    keywords: ['commit', 'branch', 'checkout', 'switch', 'merge', 'cherry-pick', 'id', 'tag', 'type', 'order', 'NORMAL', 'REVERSE', 'HIGHLIGHT'],
+    arrows: []
+  },
+  mindmap: { keywords: ['root', '::icon()'], arrows: [] },
+  timeline: { keywords: ['title', 'section'], arrows: [] },
+  quadrantChart: {
+    keywords: ['title', 'x-axis', 'y-axis', 'quadrant-1', 'quadrant-2', 'quadrant-3', 'quadrant-4'],
+    arrows: [{ label: '-->', detail: 'axis range' }]
+  },
+  'xychart-beta': { keywords: ['title', 'x-axis', 'y-axis', 'bar', 'line', 'horizontal'], arrows: [{ label: '-->', detail: 'axis range' }] },
+  requirementDiagram: {
+    keywords: ['requirement', 'functionalRequirement', 'performanceRequirement', 'interfaceRequirement', 'physicalRequirement', 'designConstraint',
+      'element', 'id', 'text', 'risk', 'verifymethod', 'type', 'docref', 'satisfies', 'traces', 'contains', 'derives', 'refines', 'verifies', 'copies'],
+    arrows: [{ label: '- satisfies ->', detail: 'relationship' }]
+  },
+  'block-beta': { keywords: ['columns', 'block', 'end', 'space'], arrows: [{ label: '-->', detail: 'arrow' }] },
+  'architecture-beta': { keywords: ['group', 'service', 'junction', 'in'], arrows: [{ label: '--', detail: 'edge' }] }
+};
+
+// Declarations offered on the first line of an empty or undeclared diagram
+const declarations: { label: string, detail: string }[] = [
+  { label: 'flowchart TD', detail: 'Flowchart' },
+  { label: 'sequenceDiagram', detail: 'Sequence' },
+  { label: 'classDiagram', detail: 'Class' },
+  { label: 'stateDiagram-v2', detail: 'State' },
+  { label: 'erDiagram', detail: 'Entity Relationship' },
+  { label: 'journey', detail: 'User Journey' },
+  { label: 'gantt', detail: 'Gantt' },
+  { label: 'pie', detail: 'Pie' },
+  { label: 'gitGraph', detail: 'Git Graph' },
+  { label: 'mindmap', detail: 'Mindmap' },
+  { label: 'timeline', detail: 'Timeline' },
+  { label: 'quadrantChart', detail: 'Quadrant' },
+  { label: 'requirementDiagram', detail: 'Requirement' },
+  { label: 'xychart-beta', detail: 'XY Chart' },
+  { label: 'sankey-beta', detail: 'Sankey' },
+  { label: 'block-beta', detail: 'Block' },
+  { label: 'architecture-beta', detail: 'Architecture' },
+  { label: 'kanban', detail: 'Kanban' }
+];
+
+// Every keyword is highlighted whatever the diagram type - the tokenizer doesn't track it
+const allKeywords = new Set<string>(
+  ['accTitle', 'accDescr', 'title'].concat(...Object.keys(vocabularies).map(keyword => vocabularies[keyword].keywords))
+);
+
+// Statements that open a block closed by "end" (sequence, flowchart, block) or "}" (class, state, namespace)
+const BLOCK_OPENER = /^(subgraph|loop|alt|opt|par|critical|break|rect|box|block)\b|\{\s*$/;
+const BLOCK_CLOSER = /^(end\b|\})/;
+const BLOCK_CONTINUATION = /^(else|and|option)\b/;
+
+// Links and relations: -->, -.->, ==>, ->>, <|--, *--, ||--o{, ~~~ and the like
+const ARROW = /^(<<|<\|?|\*|\}[o|]|\|[o|])?(-\.+-|-{1,3}|={2,3}|\.{2}|~{3})(>>|\|>|>|x\b|o\b|\)|\*|[o|]\{|[o|]\||\|\|)?/;
+
+interface MermaidState {
+  inFrontMatter: boolean;
+  declared: boolean; // Past the diagram declaration line
+  depth: number; // Blocks left open by the lines read so far
+}
+
+const token = (stream: StringStream, state: MermaidState): string | null => {
+  if (stream.sol()) {
+    const line = stream.string.trim();
+    if (line === '---' && !state.declared) {
+      state.inFrontMatter = !state.inFrontMatter;
+      stream.skipToEnd();
+      return 'meta';
+    }
+    if (state.declared && !state.inFrontMatter) {
+      if (BLOCK_CLOSER.test(line)) {
+        state.depth = Math.max(0, state.depth - 1);
+      }
+      if (BLOCK_OPENER.test(line)) {
+        state.depth++;
+      }
+    }
+  }
+
+  if (state.inFrontMatter) {
+    stream.skipToEnd();
+    return 'meta';
+  }
+  if (stream.eatSpace()) {
+    return null;
+  }
+
+  if (stream.match(/^%%\{.*\}%%/)) {
+    return 'meta';
+  }
+  if (stream.match('%%')) {
+    stream.skipToEnd();
+    return 'comment';
+  }
+
+  if (!state.declared) {
+    stream.match(/^[^\s:;{]+/);
+    state.declared = true;
+    return 'keyword';
+  }
+
+  if (stream.match(/^"[^"]*"?/)) {
+    return 'string';
+  }
+  if (stream.match(/^<<\w+>>/)) {
+    return 'typeName'; // Class annotations and state forks
+  }
+  if (stream.match(/^-?\d+(\.\d+)?(%|px|d|h|w|m)?\b/)) {
+    return 'number';
+  }
+  if (stream.match(ARROW)) {
+    return 'operator';
+  }
+  if (stream.match(/^\|[^|]*\|/)) {
+    return 'string'; // Flowchart link text
+  }
+  if (stream.match(/^\w+(-\w+)*/)) {
+    const word = stream.current();
+    return allKeywords.has(word) ? 'keyword' : 'variableName';
+  }
+  if (stream.match(/^[[\](){}]+/)) {
+    return 'bracket';
+  }
+  if (stream.match(/^[:;,]/)) {
+    return 'punctuation';
+  }
+
+  stream.next();
+  return null;
+};
+
+// Statements after the declaration sit one unit in, plus one per open block
+const indent = (state: MermaidState, textAfter: string, context: IndentContext): number | null => {
+  if (state.inFrontMatter || !state.declared) {
+    return null;
+  }
+  const text = textAfter.trim();
+  const dedent = BLOCK_CLOSER.test(text) || BLOCK_CONTINUATION.test(text) ? 1 : 0;
+  return context.unit * Math.max(1, 1 + state.depth - dedent);
+};
+
+const mermaidCompletions = (context: CompletionContext): CompletionResult | null => {
+  const line = context.state.doc.lineAt(context.pos);
+  const keyword = getDiagramKeyword(context.state.doc.sliceString(0, line.from));
+
+  // Nothing declared above this line: offer the declarations
+  if (!keyword) {
+    const word = context.matchBefore(/[\w-]*/);
+    if (!word || (word.from === word.to && !context.explicit)) {
+      return null;
+    }
+    return {
+      from: word.from,
+      options: declarations.map((declaration): Completion => ({ label: declaration.label, detail: declaration.detail, type: 'keyword' }))
+    };
+  }
+
+  const vocabulary = vocabularies[keyword];
+  if (!vocabulary) {
+    return null;
+  }
+
+  const arrow = context.matchBefore(/[-=.~<>|*{})]+/);
+  if (arrow && /[-=.~]/.test(arrow.text) && vocabulary.arrows.length > 0) {
+    return {
+      from: arrow.from,
+      options: vocabulary.arrows.map((option): Completion => ({ label: option.label, detail: option.detail, type: 'operator' }))
+    };
+  }
+
+  const word = context.matchBefore(/[\w<>*[\]-]*/);
+  if (!word || (word.from === word.to && !context.explicit)) {
+    return null;
+  }
+  return {
+    from: word.from,
+    options: vocabulary.keywords.map((option): Completion => ({ label: option, type: 'keyword' })),
+    validFor: /^[\w<>*[\]-]*$/
+  };
+};
+
+const mermaidLanguage = StreamLanguage.define<MermaidState>({
+  name: 'mermaid',
+  startState: () => ({ inFrontMatter: false, declared: false, depth: 0 }),
+  token,
+  indent,
+  languageData: {
+    commentTokens: { line: '%%' },
+    indentOnInput: /^\s*(end|\}|else|and|option)$/,
+    autocomplete: mermaidCompletions
+  }
+});
+
+export const mermaid = (): LanguageSupport => new LanguageSupport(mermaidLanguage);
@@ -0,0 +1,99 @@
+// Helpers for inspecting Mermaid source without rendering it
+
+// Friendly names for the diagram declaration keywords
+const diagramTypeNames: { [keyword: string]: string } = {
+  graph: 'Flowchart',
+  flowchart: 'Flowchart',
+  sequenceDiagram: 'Sequence',
+  classDiagram: 'Class',
+  'classDiagram-v2': 'Class',
+  stateDiagram: 'State',
+  'stateDiagram-v2': 'State',
+  erDiagram: 'Entity Relationship',
+  journey: 'User Journey',
+  gantt: 'Gantt',
+  pie: 'Pie',
+  gitGraph: 'Git Graph',
+  mindmap: 'Mindmap',
+  timeline: 'Timeline',
+  quadrantChart: 'Quadrant',
+  requirementDiagram: 'Requirement',
+  C4Context: 'C4',
+  C4Container: 'C4',
+  C4Component: 'C4',
+  C4Dynamic: 'C4',
+  C4Deployment: 'C4',
+  'sankey-beta': 'Sankey',
+  'xychart-beta': 'XY Chart',
+  'block-beta': 'Block',
+  'packet-beta': 'Packet',
+  'architecture-beta': 'Architecture',
+  kanban: 'Kanban',
+  radar: 'Radar'
+};
+
+// Return the declaration keyword of a diagram (e.g. "flowchart", "sequenceDiagram"),
+// skipping YAML front matter, directives and comments
+export const getDiagramKeyword = (code: string): string | null => {
+  const lines = code.split('\n');
+  let inFrontMatter = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line === '---') {
+      inFrontMatter = !inFrontMatter;
+      continue;
+    }
+    if (inFrontMatter || line.length === 0 || line.startsWith('%%')) {
+      continue;
+    }
+
+    return line.split(/[\s:;{]/)[0];
+  }
+
+  return null;
+};
+
+export const detectDiagramType = (code: string): string => {
+  const keyword = getDiagramKeyword(code);
+  if (!keyword) {
+    return 'Unknown';
+  }
+  return diagramTypeNames[keyword] || keyword;
+};
+
+// Return the diagram's title from YAML front matter, an accTitle, or a "title" statement
+// (gantt, pie, journey and others). Returns null when the diagram has no title.
+export const getDiagramTitle = (code: string): string | null => {
+  const lines = code.split('\n');
+  let inFrontMatter = false;
+  let statementTitle: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+
+    if (line === '---') {
+      inFrontMatter = !inFrontMatter;
+      continue;
+    }
+
+    const frontMatterTitle = inFrontMatter ? line.match(/^title:\s*(.+)$/) : null;
+    if (frontMatterTitle) {
+      return frontMatterTitle[1].replace(/^["']|["']$/g, '').trim();
+    }
+
+    const accTitle = !inFrontMatter ? line.match(/^accTitle\s*:\s*(.+)$/) : null;
+    if (accTitle) {
+      return accTitle[1].trim();
+    }
+
+    // "title Sales" on its own line, or "pie title Pets" on the declaration line
+    const titleStatement: RegExpMatchArray | null = !inFrontMatter ? line.match(/^(?:pie\s+(?:showData\s+)?)?title\s+(.+)$/) : null;
+    if (titleStatement && !statementTitle) {
+      statementTitle = titleStatement[1].trim();
+    }
+  }
+
+  return statementTitle;
+};
@@ -0,0 +1,174 @@
+// Mermaid diagrams in the HTML body of an Outlook message.
+// A message has no custom XML parts, so each diagram's metadata travels in the body itself:
+// the picture is an inline attachment referenced by cid, followed by a hidden element holding
+// the serialized diagram record. Anyone with the add-in can read the source back from it,
+// including recipients of a reply or forward.
+
+import { DiagramRecord, serializeDiagramRecord, parseDiagramXml } from './diagramMetadata';
+
+const SOURCE_CLASS = 'mermaid-source';
+
+// display:none for most clients, mso-hide:all for Outlook's Word-based renderer
+const HIDDEN_STYLE = 'display:none;mso-hide:all;max-height:0;overflow:hidden;font-size:0';
+
+export interface BodyDiagramImage {
+  diagramId: string;
+  contentId: string; // The attachment name the cid: reference points to
+}
+
+export interface BodyDiagrams {
+  records: DiagramRecord[];
+  images: BodyDiagramImage[];
+}
+
+// The record is base64-encoded so mail clients can't reflow or re-escape the XML
+const encodeRecord = (record: DiagramRecord): string => {
+  const bytes = new TextEncoder().encode(serializeDiagramRecord(record));
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+const decodeRecord = (encoded: string): DiagramRecord | null => {
+  try {
+    const binary = atob(encoded.replace(/\s/g, ''));
+    const bytes = Uint8Array.from(binary, character => character.charCodeAt(0));
+    const parsed = parseDiagramXml(new TextDecoder().decode(bytes));
+    return parsed ? parsed.record : null;
+  } catch (error) {
+    console.log('Could not decode diagram source in message body:', error);
+    return null;
+  }
+};
+
+// Attachment names double as content IDs. Each render gets its own name so an update
+// never collides with the attachment it replaces.
+export const diagramContentId = (diagramId: string): string => `${diagramId}-${Date.now()}.png`;
+
+export const buildDiagramHtml = (record: DiagramRecord, contentId: string, width: number, height: number): string => {
+  return `<img src="cid:${contentId}" width="${Math.round(width)}" height="${Math.round(height)}" alt="MERMAID_ID:${record.id}" style="max-width:100%;height:auto">` +
+    `<div class="${SOURCE_CLASS}" style="${HIDDEN_STYLE}">${encodeRecord(record)}</div>`;
+};
+
+const parseBody = (html: string): Document => new DOMParser().parseFromString(html, 'text/html');
+
+const diagramIdFromImage = (image: HTMLImageElement): string | null => {
+  const altText = image.getAttribute('alt') || '';
+  return altText.startsWith('MERMAID_ID:') ? altText.substring('MERMAID_ID:'.length) : null;
+};
+
+// Source elements are matched by class and, since some clients drop classes, by their content.
+// Only leaf elements qualify, so a wrapper around a source is never mistaken for it.
+const sourceElements = (doc: Document): { element: Element, record: DiagramRecord }[] => {
+  const sources: { element: Element, record: DiagramRecord }[] = [];
+  doc.querySelectorAll('div').forEach(element => {
+    if (element.children.length > 0) {
+      return;
+    }
+    if (element.classList.contains(SOURCE_CLASS) || /^[A-Za-z0-9+/=\s]{40,}$/.test(element.textContent || '')) {
+      const record = decodeRecord(element.textContent || '');
+      if (record) {
+        sources.push({ element, record });
+      }
+    }
+  });
+  return sources;
+};
+
+export const readBodyDiagrams = (html: string): BodyDiagrams => {
+  const doc = parseBody(html);
+
+  const images: BodyDiagramImage[] = [];
+  doc.querySelectorAll('img').forEach(image => {
+    const diagramId = diagramIdFromImage(image);
+    if (diagramId) {
+      images.push({ diagramId, contentId: (image.getAttribute('src') || '').replace(/^cid:/, '') });
+    }
+  });
+
+  // A diagram's source can appear more than once when a message quotes an earlier one - keep the first
+  const records: DiagramRecord[] = [];
+  sourceElements(doc).forEach(source => {
+    if (!records.some(record => record.id === source.record.id)) {
+      records.push(source.record);
+    }
+  });
+
+  return { records, images };
+};
+
+// Return the body with every picture and source of the diagram swapped for new ones,
+// or null when the diagram isn't in the body
+export const replaceBodyDiagram = (html: string, record: DiagramRecord, contentId: string, width: number, height: number): string | null => {
+  const doc = parseBody(html);
+  const images = Array.from(doc.querySelectorAll('img')).filter(image => diagramIdFromImage(image) === record.id);
+  if (images.length === 0) {
+    return null;
+  }
+
+  images.forEach(image => {
+    image.setAttribute('src', `cid:${contentId}`);
+    image.setAttribute('width', String(Math.round(width)));
+    image.setAttribute('height', String(Math.round(height)));
+  });
+
+  const sources = sourceElements(doc).filter(source => source.record.id === record.id);
+  sources.forEach(source => {
+    source.element.textContent = encodeRecord(record);
+  });
+  if (sources.length === 0) {
+    images[0].insertAdjacentHTML('afterend', `<div class="${SOURCE_CLASS}" style="${HIDDEN_STYLE}">${encodeRecord(record)}</div>`);
+  }
+
+  return doc.documentElement.outerHTML;
+};
+
+// Return the body without the diagram's pictures (when removePictures is set) and sources
+export const removeBodyDiagram = (html: string, diagramId: string, removePictures: boolean): string => {
+  const doc = parseBody(html);
+
+  if (removePictures) {
+    doc.querySelectorAll('img').forEach(image => {
+      if (diagramIdFromImage(image) === diagramId) {
+        image.remove();
+      }
+    });
+  }
+  sourceElements(doc).filter(source => source.record.id === diagramId).forEach(source => source.element.remove());
+
+  return doc.documentElement.outerHTML;
+};
+
+// Give every copy of a diagram after the first its own ID and source. Returns the new body
+// and how many copies were split off.
+export const forkBodyDuplicates = (html: string, forkRecord: (record: DiagramRecord, newId: string) => DiagramRecord, generateId: () => string): { html: string, forkedCount: number } => {
+  const doc = parseBody(html);
+  const sources = sourceElements(doc);
+  const seenIds = new Set<string>();
+  let forkedCount = 0;
+
+  doc.querySelectorAll('img').forEach(image => {
+    const diagramId = diagramIdFromImage(image);
+    if (!diagramId) {
+      return;
+    }
+    if (!seenIds.has(diagramId)) {
+      seenIds.add(diagramId);
+      return;
+    }
+
+    const source = sources.find(candidate => candidate.record.id === diagramId);
+    if (!source) {
+      return;
+    }
+
+    const copy = forkRecord(source.record, generateId());
+    image.setAttribute('alt', `MERMAID_ID:${copy.id}`);
+    image.insertAdjacentHTML('afterend', `<div class="${SOURCE_CLASS}" style="${HIDDEN_STYLE}">${encodeRecord(copy)}</div>`);
+    forkedCount++;
+  });
+
+  return { html: doc.documentElement.outerHTML, forkedCount };
+};
@@ -1,4 +1,20 @@
-/* global Office, PowerPoint, Word */
+/* global Office, PowerPoint, Word, Excel */
+
+import { DiagramImageFormat, DiagramRecord, DiagramRevision, PlaceholderBinding, DiagramSizeLimits, WordLayout, WordTextWrap, WordAnchorPosition, DataBinding, createDiagramRecord, withRevision, forkDiagramRecord, findOrphanedRecords, findDiagramRecord, loadDiagramRecords, saveDiagramRecord, deleteDiagramRecord, deleteDiagramRecords } from './diagramMetadata';
+import { detectDiagramType, getDiagramTitle } from './mermaidSyntax';
+import { DiagramPlacement, SlideSize, PlacementBounds, calculateSlidePlacement, masterContentArea, marginContentArea, fitWithin, resizeToAspect } from './diagramPlacement';
+import { PageGeometry, DEFAULT_PAGE_GEOMETRY, parseSectionGeometry } from './wordPageGeometry';
+import { captionTag, buildCaptionLabelOoxml, buildTableOfFiguresOoxml } from './wordCaptions';
+import { rangeCellsToText, parseDelimitedText } from './dataImport';
+import { BodyDiagrams, diagramContentId, buildDiagramHtml, readBodyDiagrams, replaceBodyDiagram, removeBodyDiagram, forkBodyDuplicates } from './outlookBody';
+import { sanitizeSvg } from './svgSanitizer';
+import { MermaidSecurityLevel, isSecurityLevel } from './securityPolicy';
+import { Snippet, SnippetScope, parseSnippetsXml, serializeSnippets, loadDocumentSnippets, saveDocumentSnippets } from './snippetLibrary';
+
+export type { DiagramImageFormat, DiagramRecord, DiagramRevision, DiagramSizeLimits, WordLayout, WordTextWrap, WordAnchorPosition, DataBinding } from './diagramMetadata';
+export type { DiagramPlacement, SlideSize } from './diagramPlacement';
+export type { Snippet, SnippetScope } from './snippetLibrary';
+export type { MermaidSecurityLevel } from './securityPolicy';
 
 // Check if we're running in Office context
 const isOfficeContext = typeof Office !== 'undefined';
@@ -7,6 +23,8 @@ const isOfficeContext = typeof Office !== 'undefined';
 export enum OfficePlatform {
   PowerPoint = 'PowerPoint',
   Word = 'Word',
+  Excel = 'Excel',
+  Outlook = 'Outlook',
   Unknown = 'Unknown'
 }
 
@@ -19,6 +37,10 @@ export function detectOfficePlatform(): OfficePlatform {
       return OfficePlatform.PowerPoint;
     case Office.HostType.Word:
       return OfficePlatform.Word;
+    case Office.HostType.Excel:
+      return OfficePlatform.Excel;
+    case Office.HostType.Outlook:
+      return OfficePlatform.Outlook;
     default:
       return OfficePlatform.Unknown;
   }
@@ -53,34 +75,120 @@ export function generateId(): string {
 export interface DiagramData {
   id: string;
   code: string;
+  dataBinding?: DataBinding;
+}
+
+export interface DiagramInsertOptions {
+  format?: DiagramImageFormat; // Preferred format - hosts fall back to PNG when SVG is rejected
+  placement?: DiagramPlacement; // PowerPoint only
+  slideSize?: SlideSize;
+  slideMargin?: number;
+  sizeLimits?: DiagramSizeLimits; // Word only
+  layout?: WordLayout; // Word only
+  caption?: boolean; // Word only - add a "Figure N: title" caption below inline diagrams
+  dataBinding?: DataBinding; // The data the code was generated from, for diagrams that stay linked to it
+}
+
+// Diagrams may use the full column width and page height unless limited in settings
+const defaultSizeLimits: DiagramSizeLimits = { maxWidthPercent: 100, maxHeightPercent: 100 };
+
+// Inline pictures, as every Word diagram was inserted before floating layouts
+const defaultWordLayout: WordLayout = { wrap: 'inline', anchorPosition: 'center' };
+
+// One diagram in the document, as shown in the inventory panel
+export interface DiagramInventoryItem {
+  id: string;
+  code: string;
+  diagramType: string;
+  createdAt: string;
+  updatedAt?: string;
+  location: string; // "Slide 3" in PowerPoint, "Paragraph 14" in Word, the worksheet name in Excel, "Picture 2" in Outlook
+  onCanvas: boolean; // False when metadata exists but no matching shape or picture was found
+  dataBinding?: DataBinding;
+}
+
+// Result of cross-referencing tagged shapes (or Word pictures) against stored metadata
+export interface DiagramRepairReport {
+  orphanedRecords: { id: string; diagramType: string; createdAt: string }[]; // Metadata whose tagged shape was deleted
+  unverifiableRecords: { id: string; diagramType: string; createdAt: string }[]; // Saved without tagging the shape, so it can't be found - never purged
+  danglingShapes: { diagramId: string; location: string }[]; // Tagged shapes with no metadata
+  duplicatedIds: { diagramId: string; locations: string[] }[]; // One ID on several shapes, usually from copy-paste
+}
+
+export interface DiagramRepairOptions {
+  purgeOrphans: boolean;
+  forkDuplicates: boolean;
+}
+
+export interface DiagramRepairResult {
+  purgedCount: number;
+  forkedCount: number;
+}
+
+// Details recorded in the diagram's revision history when it is updated
+export interface DiagramUpdateOptions {
+  author?: string;
+  note?: string;
+  dataBinding?: DataBinding | null; // Null unlinks the diagram from its data, undefined keeps the current link
 }
 
 // Abstract diagram insertion interface
 export interface DiagramInserter {
-  insertDiagram(mermaidCode: string, svgContent: string): Promise<void>;
-  updateDiagram(diagramId: string, mermaidCode: string, svgContent: string): Promise<void>;
+  insertDiagram(mermaidCode: string, svgContent: string, options?: DiagramInsertOptions): Promise<void>;
+  updateDiagram(diagramId: string, mermaidCode: string, svgContent: string, options?: DiagramUpdateOptions): Promise<void>;
   getSelectedDiagram(): Promise<DiagramData | null>;
+  getDiagramHistory(diagramId: string): Promise<DiagramRevision[]>;
+  listDiagrams(): Promise<DiagramInventoryItem[]>;
+  selectDiagram(diagramId: string): Promise<void>;
+  deleteDiagram(diagramId: string): Promise<void>;
+  checkDiagramIntegrity(): Promise<DiagramRepairReport>;
+  repairDiagrams(options: DiagramRepairOptions): Promise<DiagramRepairResult>;
   listStoredDiagrams(): Promise<string>;
   getSelectedShapeInfo(): Promise<string>;
   captureCursorPosition?(): Promise<void>; // Optional method for Word (legacy)
   exitInsertionMode?(): Promise<void>; // Optional method for Word
   insertAtCurrentPosition?(): Promise<void>; // Optional method for Word
+  insertTableOfFigures?(): Promise<void>; // Optional method for Word
 }
 
 // PowerPoint implementation
 class PowerPointInserter implements DiagramInserter {
-  async insertDiagram(mermaidCode: string, svgContent: string): Promise<void> {
-    return insertDiagram(mermaidCode, svgContent);
+  async insertDiagram(mermaidCode: string, svgContent: string, options?: DiagramInsertOptions): Promise<void> {
+    return insertDiagram(mermaidCode, svgContent, options);
   }
   
-  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string): Promise<void> {
-    return updateDiagram(diagramId, mermaidCode, svgContent);
+  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string, options?: DiagramUpdateOptions): Promise<void> {
+    return updateDiagram(diagramId, mermaidCode, svgContent, options);
   }
   
   async getSelectedDiagram(): Promise<DiagramData | null> {
     return getSelectedDiagram();
   }
   
+  async getDiagramHistory(diagramId: string): Promise<DiagramRevision[]> {
+    return getDiagramHistory(diagramId);
+  }
+  
+  async listDiagrams(): Promise<DiagramInventoryItem[]> {
+    return listDiagramInventory();
+  }
+  
+  async selectDiagram(diagramId: string): Promise<void> {
+    return selectDiagramShape(diagramId);
+  }
+  
+  async deleteDiagram(diagramId: string): Promise<void> {
+    return deleteDiagram(diagramId);
+  }
+  
+  async checkDiagramIntegrity(): Promise<DiagramRepairReport> {
+    return checkDiagramIntegrity();
+  }
+  
+  async repairDiagrams(options: DiagramRepairOptions): Promise<DiagramRepairResult> {
+    return repairDiagrams(options);
+  }
+  
   async listStoredDiagrams(): Promise<string> {
     return listAllStoredDiagrams();
   }
@@ -91,9 +199,25 @@ class PowerPointInserter implements DiagramInserter {
 }
 
 // Word implementation
+// A Word picture tagged with a MERMAID_ID alt text - inline, or floating and anchored to the paragraph
+interface WordDiagramPicture {
+  diagramId: string;
+  picture: Word.InlinePicture | Word.Shape;
+  floating: boolean;
+  paragraph: Word.Paragraph;
+  paragraphIndex: number;
+}
+
+// String values rather than Word.ShapeTextWrapType - the Word namespace isn't loaded in PowerPoint
+const wordTextWrapTypes: { [wrap in Exclude<WordTextWrap, 'inline'>]: 'Square' | 'TopBottom' | 'Behind' } = {
+  square: 'Square',
+  topBottom: 'TopBottom',
+  behind: 'Behind'
+};
+
 class WordInserter implements DiagramInserter {
   private insertionMode: boolean = false;
-  private pendingInsertion: {mermaidCode: string, svgContent: string} | null = null;
+  private pendingInsertion: {mermaidCode: string, svgContent: string, options: DiagramInsertOptions} | null = null;
   private selectionChangedHandler: any = null;
   private onInsertionComplete: (() => void) | null = null;
   
@@ -103,11 +227,11 @@ class WordInserter implements DiagramInserter {
   }
   
   // Enter insertion mode - prepare for user to click where they want the diagram
-  async enterInsertionMode(mermaidCode: string, svgContent: string): Promise<void> {
+  async enterInsertionMode(mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> {
     console.log('WordInserter: Entering insertion mode');
     
     this.insertionMode = true;
-    this.pendingInsertion = { mermaidCode, svgContent };
+    this.pendingInsertion = { mermaidCode, svgContent, options };
     
     // Set up Office document selection change event handler
     try {
@@ -162,7 +286,7 @@ class WordInserter implements DiagramInserter {
     
     try {
       // Perform insertion at current location
-      await this.performActualInsertion(this.pendingInsertion.mermaidCode, this.pendingInsertion.svgContent);
+      await this.performActualInsertion(this.pendingInsertion.mermaidCode, this.pendingInsertion.svgContent, this.pendingInsertion.options);
       
       // Exit insertion mode
       await this.exitInsertionMode();
@@ -225,7 +349,7 @@ class WordInserter implements DiagramInserter {
   }
   
   // Perform the actual insertion at current cursor position
-  private async performActualInsertion(mermaidCode: string, svgContent: string): Promise<void> {
+  private async performActualInsertion(mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> {
     await Word.run(async (context) => {
       // Get current selection (where user just clicked)
       const selection = context.document.getSelection();
@@ -234,42 +358,68 @@ class WordInserter implements DiagramInserter {
       
       console.log('WordInserter: Inserting at user-selected position');
       
-      // Generate optimal PNG as before
-      const pageDimensions = await this.getDocumentPageDimensions();
+      // Size for the page and column at the insertion point
+      const pageGeometry = await this.getDocumentPageDimensions(context, selection);
       const svgDimensions = this.parseSvgViewBox(svgContent);
       let svgWidth = svgDimensions.width > 0 ? svgDimensions.width : 800;
       let svgHeight = svgDimensions.height > 0 ? svgDimensions.height : 600;
       
-      const optimalSize = this.calculateOptimalDiagramSize(
-        svgWidth, svgHeight, 
-        pageDimensions.pageWidth, pageDimensions.pageHeight,
-        pageDimensions.marginLeft, pageDimensions.marginRight,
-        pageDimensions.marginTop, pageDimensions.marginBottom
-      );
+      const sizeLimits = options.sizeLimits || defaultSizeLimits;
+      const optimalSize = this.calculateOptimalDiagramSize(svgWidth, svgHeight, pageGeometry, sizeLimits);
       
       const pngData = await this.convertSvgToPngForWord(svgContent, optimalSize.width, optimalSize.height);
       
-      // Insert at current selection
-      let picture;
-      if (selection.text && selection.text.length > 0) {
-        console.log('WordInserter: Text selected, inserting after selection');
-        picture = selection.insertInlinePictureFromBase64(pngData.base64, Word.InsertLocation.after);
+      const diagramId = generateId();
+      const requestedLayout = options.layout || defaultWordLayout;
+      let layout = requestedLayout;
+      
+      if (requestedLayout.wrap !== 'inline' && this.isFloatingLayoutSupported()) {
+        // Floating pictures are anchored to the paragraph at the cursor and take no line of their own
+        console.log('WordInserter: Inserting floating picture with', requestedLayout.wrap, 'wrapping');
+        this.insertFloatingPicture(selection, pngData.base64, optimalSize, requestedLayout, pageGeometry, diagramId);
       } else {
-        console.log('WordInserter: No text selected, inserting at cursor');
-        picture = selection.insertInlinePictureFromBase64(pngData.base64, Word.InsertLocation.replace);
+        if (requestedLayout.wrap !== 'inline') {
+          console.log('WordInserter: Floating pictures need WordApiDesktop 1.2, inserting inline instead');
+          layout = defaultWordLayout;
+        }
+        
+        // Insert at current selection
+        let picture;
+        if (selection.text && selection.text.length > 0) {
+          console.log('WordInserter: Text selected, inserting after selection');
+          picture = selection.insertInlinePictureFromBase64(pngData.base64, Word.InsertLocation.after);
+        } else {
+          console.log('WordInserter: No text selected, inserting at cursor');
+          picture = selection.insertInlinePictureFromBase64(pngData.base64, Word.InsertLocation.replace);
+        }
+        
+        // Set optimal size
+        picture.width = optimalSize.width;
+        picture.height = optimalSize.height;
+        
+        // Add spacing and metadata as before
+        const followingParagraph = picture.insertParagraph('', Word.InsertLocation.after);
+        picture.altTextDescription = `MERMAID_ID:${diagramId}`;
+        
+        // The caption goes directly below the picture, with the spacing paragraph after it
+        if (options.caption) {
+          const spacingParagraph = followingParagraph.insertParagraph('', Word.InsertLocation.after);
+          spacingParagraph.styleBuiltIn = Word.BuiltInStyleName.normal;
+          await this.insertCaption(context, followingParagraph, diagramId, mermaidCode);
+        }
       }
       
-      // Set optimal size
-      picture.width = optimalSize.width;
-      picture.height = optimalSize.height;
-      
-      // Add spacing and metadata as before
-      picture.insertParagraph('', Word.InsertLocation.after);
-      
-      const diagramId = generateId();
-      picture.altTextDescription = `MERMAID_ID:${diagramId}`;
+      if (options.caption && layout.wrap !== 'inline') {
+        console.log('WordInserter: Captions are only added below inline diagrams, skipping caption for floating picture');
+      }
       
-      await this.storeDiagramMetadata(diagramId, mermaidCode);
+      await this.storeDiagramMetadata(createDiagramRecord(diagramId, mermaidCode, {
+        imageFormat: 'png',
+        shapeTagged: true,
+        sizeLimits,
+        layout,
+        dataBinding: options.dataBinding
+      }));
       await context.sync();
       
       console.log('WordInserter: Diagram inserted successfully at user-chosen location');
@@ -283,8 +433,30 @@ class WordInserter implements DiagramInserter {
   async captureCursorPosition(): Promise<void> {
     console.log('WordInserter: captureCursorPosition called (legacy method)');
   }
+  
+  // Insert a table of figures at the cursor, listing every "Figure" caption with its page
+  async insertTableOfFigures(): Promise<void> {
+    console.log('WordInserter: Inserting table of figures');
+    
+    await Word.run(async (context) => {
+      const tableRange = context.document.getSelection().insertOoxml(buildTableOfFiguresOoxml(), Word.InsertLocation.replace);
+      await context.sync();
+      
+      // Fill in the entries now where possible - otherwise Word shows a prompt to update the field
+      if (Office.context.requirements.isSetSupported('WordApi', '1.5')) {
+        const fields = tableRange.fields;
+        fields.load('items');
+        await context.sync();
+        
+        fields.items.forEach(field => field.updateResult());
+        await context.sync();
+      }
+      
+      console.log('WordInserter: Table of figures inserted');
+    });
+  }
 
-  async insertDiagram(mermaidCode: string, svgContent: string): Promise<void> {
+  async insertDiagram(mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> {
     console.log('WordInserter: Starting two-step diagram insertion');
     console.log('WordInserter: SVG content length:', svgContent.length);
     
@@ -307,7 +479,7 @@ class WordInserter implements DiagramInserter {
     
     // Enter insertion mode instead of immediate insertion
     try {
-      await this.enterInsertionMode(mermaidCode, svgContent);
+      await this.enterInsertionMode(mermaidCode, svgContent, options);
       
       // Throw special success message to indicate mode change
       throw new Error('SUCCESS: Click in your document where you want the diagram to be inserted.');
@@ -321,49 +493,35 @@ class WordInserter implements DiagramInserter {
     }
   }
   
-  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string): Promise<void> {
+  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string, options: DiagramUpdateOptions = {}): Promise<void> {
     console.log('WordInserter: Updating diagram with ID:', diagramId);
     
     await Word.run(async (context) => {
       try {
-        // First, find and delete the old diagram image
-        const inlinePictures = context.document.body.inlinePictures;
-        inlinePictures.load(['items']);
-        await context.sync();
+        // Find the metadata associated with this diagram ID
+        const existingRecord = await findDiagramRecord(context, context.document.customXmlParts, diagramId);
         
-        // Find the picture associated with this diagram ID by checking custom XML parts
-        const customXmlParts = context.document.customXmlParts;
-        customXmlParts.load('items');
-        await context.sync();
-        
-        let foundDiagram = false;
-        for (let i = 0; i < customXmlParts.items.length; i++) {
-          const part = customXmlParts.items[i];
-          try {
-            const xml = part.getXml();
-            await context.sync();
-            
-            if (xml.value.includes(`<Id>${diagramId}</Id>`)) {
-              console.log('WordInserter: Found existing diagram metadata for update');
-              foundDiagram = true;
-              
-              // Delete the old XML part
-              part.delete();
-              break;
-            }
-          } catch (error) {
-            // Skip this part if we can't read it
-            continue;
-          }
-        }
-        
-        if (!foundDiagram) {
+        if (!existingRecord) {
           throw new Error(`Diagram with ID ${diagramId} not found. It may have been deleted or moved.`);
         }
+        console.log('WordInserter: Found existing diagram metadata for update');
+        
+        // Find the picture being updated - the new one takes its place, so the diagram never moves.
+        // The selection is only used when the picture has gone missing from the document.
+        const layout = existingRecord.layout || defaultWordLayout;
+        const diagramPictures = (await this.findDiagramPictures(context)).filter(candidate => candidate.diagramId === diagramId);
+        const existingPicture = diagramPictures.find(candidate => candidate.floating === (layout.wrap !== 'inline')) || diagramPictures[0];
+        const anchorRange = existingPicture
+          ? existingPicture.paragraph.getRange(Word.RangeLocation.start)
+          : context.document.getSelection();
+        
+        if (!existingPicture) {
+          console.log('WordInserter: Picture for diagram not found, replacing the current selection instead');
+        }
         
         // Get document page dimensions for optimal sizing
         console.log('WordInserter: Getting document page dimensions for update');
-        const pageDimensions = await this.getDocumentPageDimensions();
+        const pageGeometry = await this.getDocumentPageDimensions(context, anchorRange);
         
         // Parse SVG dimensions
         console.log('WordInserter: Parsing SVG dimensions for update');
@@ -383,43 +541,57 @@ class WordInserter implements DiagramInserter {
         const optimalSize = this.calculateOptimalDiagramSize(
           svgWidth, 
           svgHeight, 
-          pageDimensions.pageWidth, 
-          pageDimensions.pageHeight,
-          pageDimensions.marginLeft,
-          pageDimensions.marginRight,
-          pageDimensions.marginTop,
-          pageDimensions.marginBottom
+          pageGeometry,
+          existingRecord.sizeLimits || defaultSizeLimits
         );
         
         // Convert SVG to PNG at 300 DPI for the calculated optimal size
         console.log('WordInserter: Converting SVG to PNG at 300 DPI for update');
         const pngWithWhiteBackground = await this.convertSvgToPngForWord(svgContent, optimalSize.width, optimalSize.height);
         
-        // Insert the new diagram at the current selection or end of document
-        let picture;
-        try {
-          const selection = context.document.getSelection();
-          picture = selection.insertInlinePictureFromBase64(
-            pngWithWhiteBackground.base64, 
-            Word.InsertLocation.replace
-          );
-        } catch (selectionError) {
-          // Fallback to end of document if selection fails
-          picture = context.document.body.insertInlinePictureFromBase64(
-            pngWithWhiteBackground.base64, 
-            Word.InsertLocation.end
-          );
+        if (existingPicture && existingPicture.floating) {
+          console.log('WordInserter: Update - re-creating floating picture with', layout.wrap, 'wrapping');
+          existingPicture.picture.delete();
+          this.insertFloatingPicture(anchorRange, pngWithWhiteBackground.base64, optimalSize, layout, pageGeometry, diagramId);
+        } else {
+          let picture: Word.InlinePicture;
+          if (existingPicture) {
+            // Replacing the picture itself keeps its paragraph - formatting, alignment and any caption after it
+            const oldPicture = existingPicture.picture as Word.InlinePicture;
+            oldPicture.load(['altTextTitle', 'hyperlink']);
+            await context.sync();
+            
+            picture = oldPicture.insertInlinePictureFromBase64(pngWithWhiteBackground.base64, Word.InsertLocation.replace);
+            if (oldPicture.altTextTitle) {
+              picture.altTextTitle = oldPicture.altTextTitle;
+            }
+            if (oldPicture.hyperlink) {
+              picture.hyperlink = oldPicture.hyperlink;
+            }
+          } else {
+            picture = context.document.getSelection().insertInlinePictureFromBase64(
+              pngWithWhiteBackground.base64, 
+              Word.InsertLocation.replace
+            );
+          }
+          picture.altTextDescription = `MERMAID_ID:${diagramId}`;
+          
+          // Set picture dimensions to the calculated optimal size
+          // The PNG was created at 300 DPI specifically for this display size
+          console.log('WordInserter: Update - resizing picture to optimal calculated size:', optimalSize.width, 'x', optimalSize.height, 'points');
+          console.log('WordInserter: Update - PNG was created at 300 DPI specifically for this size (', pngWithWhiteBackground.width, 'x', pngWithWhiteBackground.height, 'pixels)');
+          picture.width = optimalSize.width;
+          picture.height = optimalSize.height;
         }
         
-        // Set picture dimensions to the calculated optimal size
-        // The PNG was created at 300 DPI specifically for this display size
-        console.log('WordInserter: Update - resizing picture to optimal calculated size:', optimalSize.width, 'x', optimalSize.height, 'points');
-        console.log('WordInserter: Update - PNG was created at 300 DPI specifically for this size (', pngWithWhiteBackground.width, 'x', pngWithWhiteBackground.height, 'pixels)');
-        picture.width = optimalSize.width;
-        picture.height = optimalSize.height;
+        // Keep the caption title in step with the diagram's title
+        const captionControls = context.document.contentControls.getByTag(captionTag(diagramId));
+        captionControls.load('items');
+        await context.sync();
+        captionControls.items.forEach(control => control.insertText(this.getCaptionTitle(mermaidCode), Word.InsertLocation.replace));
         
-        // Store updated diagram metadata
-        await this.storeDiagramMetadata(diagramId, mermaidCode);
+        // Store updated diagram metadata (replaces the existing part, keeping its creation time)
+        await this.storeDiagramMetadata(withRevision(existingRecord, mermaidCode, options));
         
         await context.sync();
         console.log('WordInserter: Diagram updated successfully');
@@ -444,14 +616,24 @@ class WordInserter implements DiagramInserter {
         
         console.log('WordInserter: Found', inlinePictures.items.length, 'selected pictures');
         
-        if (inlinePictures.items.length === 0) {
+        // Get the first selected picture and check its alt text for diagram ID
+        let altText: string | null = inlinePictures.items.length > 0 ? inlinePictures.items[0].altTextDescription : null;
+        
+        // A selected floating diagram isn't an inline picture - look at the shapes anchored in the selection
+        if (!altText && this.isFloatingLayoutSupported()) {
+          const shapes = selection.shapes;
+          shapes.load('items/altTextDescription');
+          await context.sync();
+          
+          const diagramShape = shapes.items.find(shape => shape.altTextDescription && shape.altTextDescription.startsWith('MERMAID_ID:'));
+          altText = diagramShape ? diagramShape.altTextDescription : null;
+        }
+        
+        if (!altText) {
           console.log('WordInserter: No picture selected, cannot edit');
           return null;
         }
         
-        // Get the first selected picture and check its alt text for diagram ID
-        const selectedPicture = inlinePictures.items[0];
-        const altText = selectedPicture.altTextDescription;
         console.log('WordInserter: Selected picture alt text:', altText);
         
         if (!altText || !altText.startsWith('MERMAID_ID:')) {
@@ -464,53 +646,16 @@ class WordInserter implements DiagramInserter {
         console.log('WordInserter: Found diagram ID in selected image:', diagramId);
         
         // Now find the metadata for this specific diagram ID
-        const customXmlParts = context.document.customXmlParts;
-        customXmlParts.load('items');
-        await context.sync();
-        
         console.log('WordInserter: Searching for metadata with ID:', diagramId);
-        
-        for (let i = 0; i < customXmlParts.items.length; i++) {
-          const part = customXmlParts.items[i];
-          try {
-            const xml = part.getXml();
-            await context.sync();
-            
-            if (xml.value.includes('<MermaidDiagram>') && xml.value.includes(`<Id>${diagramId}</Id>`)) {
-              console.log('WordInserter: Found matching metadata for diagram:', diagramId);
-              console.log('WordInserter: Full XML content:', xml.value);
-              
-              // Check what's actually in the CDATA section
-              const cdataStartIndex = xml.value.indexOf('<![CDATA[');
-              const cdataEndIndex = xml.value.indexOf(']]>');
-              if (cdataStartIndex >= 0 && cdataEndIndex >= 0) {
-                const cdataContent = xml.value.substring(cdataStartIndex + 9, cdataEndIndex);
-                console.log('WordInserter: Raw CDATA content:', JSON.stringify(cdataContent));
-              }
-              
-              // Updated regex to handle newlines and special characters in CDATA
-              const codeMatch = xml.value.match(/<Code><!\[CDATA\[([\s\S]*?)\]\]><\/Code>/);
-              console.log('WordInserter: Code regex result:', codeMatch);
-              
-              if (codeMatch) {
-                console.log('WordInserter: Successfully extracted diagram code:', codeMatch[1].substring(0, 50) + '...');
-                return {
-                  id: diagramId,
-                  code: codeMatch[1]
-                };
-              } else {
-                console.log('WordInserter: Failed to parse diagram code from metadata');
-                // Try alternative regex patterns
-                const altCodeMatch1 = xml.value.match(/<Code>([^<]+)<\/Code>/);
-                const altCodeMatch2 = xml.value.match(/<!\[CDATA\[([^\]]+)\]\]>/);
-                console.log('WordInserter: Alternative regex 1:', altCodeMatch1);
-                console.log('WordInserter: Alternative regex 2:', altCodeMatch2);
-              }
-            }
-          } catch (error) {
-            console.log(`WordInserter: Error reading XML part ${i + 1}:`, error);
-            continue;
-          }
+        const record = await findDiagramRecord(context, context.document.customXmlParts, diagramId);
+        
+        if (record) {
+          console.log('WordInserter: Successfully extracted diagram code:', record.code.substring(0, 50) + '...');
+          return {
+            id: record.id,
+            code: record.code,
+            dataBinding: record.dataBinding
+          };
         }
         
         console.log('WordInserter: No metadata found for diagram ID:', diagramId);
@@ -523,41 +668,172 @@ class WordInserter implements DiagramInserter {
     });
   }
   
-  async listStoredDiagrams(): Promise<string> {
-    console.log('WordInserter: Listing stored diagrams');
+  async getDiagramHistory(diagramId: string): Promise<DiagramRevision[]> {
+    return await Word.run(async (context) => {
+      const record = await findDiagramRecord(context, context.document.customXmlParts, diagramId);
+      return record ? record.revisions : [];
+    });
+  }
+  
+  // Collect every picture carrying a MERMAID_ID alt text, with its paragraph. Floating pictures
+  // are found through the shapes anchored in each paragraph when the shapes API is available.
+  private async findDiagramPictures(context: Word.RequestContext): Promise<WordDiagramPicture[]> {
+    const includeFloating = this.isFloatingLayoutSupported();
+    const paragraphs = context.document.body.paragraphs;
+    paragraphs.load('items');
+    await context.sync();
+    
+    paragraphs.items.forEach(paragraph => {
+      paragraph.inlinePictures.load('items/altTextDescription');
+      if (includeFloating) {
+        paragraph.shapes.load('items/altTextDescription,items/textWrap/type');
+      }
+    });
+    await context.sync();
+    
+    const diagramId = (altText: string): string | null => {
+      return altText && altText.startsWith('MERMAID_ID:') ? altText.substring('MERMAID_ID:'.length) : null;
+    };
+    
+    const diagramPictures: WordDiagramPicture[] = [];
+    paragraphs.items.forEach((paragraph, paragraphIndex) => {
+      paragraph.inlinePictures.items.forEach(picture => {
+        const id = diagramId(picture.altTextDescription);
+        if (id) {
+          diagramPictures.push({ diagramId: id, picture, floating: false, paragraph, paragraphIndex });
+        }
+      });
+      
+      if (includeFloating) {
+        // Inline shapes are also listed here - they were already found as inline pictures
+        paragraph.shapes.items.forEach(shape => {
+          const id = diagramId(shape.altTextDescription);
+          if (id && shape.textWrap.type !== 'Inline') {
+            diagramPictures.push({ diagramId: id, picture: shape, floating: true, paragraph, paragraphIndex });
+          }
+        });
+      }
+    });
+    
+    return diagramPictures;
+  }
+  
+  async listDiagrams(): Promise<DiagramInventoryItem[]> {
+    console.log('WordInserter: Building diagram inventory');
     
     return await Word.run(async (context) => {
-      try {
-        const customXmlParts = context.document.customXmlParts;
-        customXmlParts.load('items');
-        await context.sync();
-        
-        const diagrams: any[] = [];
-        
-        for (let i = 0; i < customXmlParts.items.length; i++) {
-          const part = customXmlParts.items[i];
-          try {
-            const xml = part.getXml();
+      const records = await loadDiagramRecords(context, context.document.customXmlParts);
+      const diagramPictures = await this.findDiagramPictures(context);
+      
+      return records.map(record => {
+        const pictures = diagramPictures.filter(diagramPicture => diagramPicture.diagramId === record.id);
+        return {
+          id: record.id,
+          code: record.code,
+          diagramType: detectDiagramType(record.code),
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          location: pictures.length > 0
+            ? pictures.map(diagramPicture => `Paragraph ${diagramPicture.paragraphIndex + 1}`).join(', ')
+            : 'Not found in document',
+          onCanvas: pictures.length > 0,
+          dataBinding: record.dataBinding,
+          sortKey: pictures.length > 0 ? pictures[0].paragraphIndex : Number.MAX_SAFE_INTEGER
+        };
+      })
+        .sort((a, b) => a.sortKey - b.sortKey)
+        .map(({ sortKey, ...item }) => item);
+    });
+  }
+  
+  async selectDiagram(diagramId: string): Promise<void> {
+    await Word.run(async (context) => {
+      const diagramPicture = (await this.findDiagramPictures(context)).find(candidate => candidate.diagramId === diagramId);
+      
+      if (!diagramPicture) {
+        throw new Error(`Diagram ${diagramId} was not found in the document`);
+      }
+      
+      diagramPicture.picture.select();
+      await context.sync();
+    });
+  }
+  
+  async deleteDiagram(diagramId: string): Promise<void> {
+    console.log('WordInserter: Deleting diagram:', diagramId);
+    
+    await Word.run(async (context) => {
+      const diagramPictures = (await this.findDiagramPictures(context)).filter(candidate => candidate.diagramId === diagramId);
+      diagramPictures.forEach(diagramPicture => diagramPicture.picture.delete());
+      
+      // Captions go with their diagram
+      const captionControls = context.document.contentControls.getByTag(captionTag(diagramId));
+      captionControls.load('items');
+      await context.sync();
+      captionControls.items.forEach(control => control.paragraphs.getFirst().delete());
+      await context.sync();
+      
+      await deleteDiagramRecord(context, context.document.customXmlParts, diagramId);
+      console.log(`WordInserter: Deleted ${diagramPictures.length} picture(s) and metadata for diagram:`, diagramId);
+    });
+  }
+  
+  async checkDiagramIntegrity(): Promise<DiagramRepairReport> {
+    return await Word.run(async (context) => {
+      const records = await loadDiagramRecords(context, context.document.customXmlParts);
+      const diagramPictures = await this.findDiagramPictures(context);
+      
+      return buildRepairReport(records, diagramPictures.map(diagramPicture => ({
+        diagramId: diagramPicture.diagramId,
+        location: `Paragraph ${diagramPicture.paragraphIndex + 1}`
+      })), true);
+    });
+  }
+  
+  async repairDiagrams(options: DiagramRepairOptions): Promise<DiagramRepairResult> {
+    console.log('WordInserter: Repairing diagrams with options:', options);
+    
+    return await Word.run(async (context) => {
+      const customXmlParts = context.document.customXmlParts;
+      const records = await loadDiagramRecords(context, customXmlParts);
+      const diagramPictures = await this.findDiagramPictures(context);
+      const result: DiagramRepairResult = { purgedCount: 0, forkedCount: 0 };
+      
+      if (options.purgeOrphans) {
+        const orphanedIds = findOrphanedRecords(records, diagramPictures.map(diagramPicture => diagramPicture.diagramId), true).map(record => record.id);
+        result.purgedCount = await deleteDiagramRecords(context, customXmlParts, orphanedIds);
+      }
+      
+      if (options.forkDuplicates) {
+        for (const record of records) {
+          // The first picture keeps the original ID, every copy gets its own
+          const copies = diagramPictures.filter(diagramPicture => diagramPicture.diagramId === record.id).slice(1);
+          for (const copy of copies) {
+            const newId = generateId();
+            copy.picture.altTextDescription = `MERMAID_ID:${newId}`;
+            await this.retagCopiedCaption(context, copy.paragraph, record.id, newId);
             await context.sync();
-            
-            if (xml.value.includes('<MermaidDiagram>')) {
-              const idMatch = xml.value.match(/<Id>([^<]+)<\/Id>/);
-              const createdMatch = xml.value.match(/<CreatedAt>([^<]+)<\/CreatedAt>/);
-              const codeMatch = xml.value.match(/<Code><!\[CDATA\[([^\]]+)\]\]><\/Code>/);
-              
-              if (idMatch && createdMatch && codeMatch) {
-                diagrams.push({
-                  id: idMatch[1],
-                  created: createdMatch[1],
-                  codePreview: codeMatch[1].substring(0, 50) + '...'
-                });
-              }
-            }
-          } catch (error) {
-            // Skip this part if we can't read it
-            continue;
+            await saveDiagramRecord(context, customXmlParts, forkDiagramRecord(record, newId));
+            result.forkedCount++;
           }
         }
+      }
+      
+      console.log('WordInserter: Repair finished:', result);
+      return result;
+    });
+  }
+  
+  async listStoredDiagrams(): Promise<string> {
+    console.log('WordInserter: Listing stored diagrams');
+    
+    return await Word.run(async (context) => {
+      try {
+        const diagrams = (await loadDiagramRecords(context, context.document.customXmlParts)).map(record => ({
+          id: record.id,
+          created: record.createdAt,
+          codePreview: record.code.substring(0, 50) + '...'
+        }));
         
         if (diagrams.length === 0) {
           return 'No Mermaid diagrams found in this document.';
@@ -601,33 +877,13 @@ Note: Word uses inline pictures instead of shapes like PowerPoint.`;
     });
   }
   
-  private async storeDiagramMetadata(diagramId: string, mermaidCode: string): Promise<void> {
-    console.log('WordInserter: Starting metadata storage for diagram:', diagramId);
+  private async storeDiagramMetadata(record: DiagramRecord): Promise<void> {
+    console.log('WordInserter: Starting metadata storage for diagram:', record.id);
     
     await Word.run(async (context) => {
       try {
-        const customXmlParts = context.document.customXmlParts;
-        customXmlParts.load('items');
-        await context.sync();
-        
-        console.log('WordInserter: Loaded custom XML parts, current count:', customXmlParts.items.length);
-        
-        const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<MermaidDiagram>
-  <Id>${diagramId}</Id>
-  <Code><![CDATA[${mermaidCode}]]></Code>
-  <CreatedAt>${new Date().toISOString()}</CreatedAt>
-</MermaidDiagram>`;
-        
-        console.log('WordInserter: Adding XML content (full):', xmlContent);
-        
-        const newPart = customXmlParts.add(xmlContent);
-        await context.sync();
-        
-        // Verify the part was added
-        customXmlParts.load('items');
-        await context.sync();
-        console.log('WordInserter: Metadata stored successfully. New XML parts count:', customXmlParts.items.length);
+        await saveDiagramRecord(context, context.document.customXmlParts, record);
+        console.log('WordInserter: Metadata stored successfully');
         
       } catch (error) {
         console.error('WordInserter: Failed to store metadata:', error);
@@ -720,44 +976,114 @@ Note: Word uses inline pictures instead of shapes like PowerPoint.`;
     });
   }
   
-  private async getDocumentPageDimensions(): Promise<{pageWidth: number, pageHeight: number, marginLeft: number, marginRight: number, marginTop: number, marginBottom: number}> {
-    return await Word.run(async (context) => {
-      try {
-        // Try to get page setup information from the document
-        // Use default values since Word API doesn't expose section page dimensions in the same way
-        console.log('WordInserter: Using default Letter size with 1" margins');
-        console.log('WordInserter: Page dimensions (points): 612 x 792');
-        console.log('WordInserter: Margins (points) - L: 72, R: 72, T: 72, B: 72');
-        
-        // Default to US Letter size (8.5" x 11" = 612 x 792 points) with 1" margins
-        // This covers the majority of documents and provides good sizing
-        return {
-          pageWidth: 612,
-          pageHeight: 792,
-          marginLeft: 72,
-          marginRight: 72,
-          marginTop: 72,
-          marginBottom: 72
-        };
-      } catch (error) {
-        console.log('WordInserter: Could not get page dimensions, using defaults:', error);
-        // Fallback to US Letter size with 1" margins
-        return {
-          pageWidth: 612,
-          pageHeight: 792,
-          marginLeft: 72,
-          marginRight: 72,
-          marginTop: 72,
-          marginBottom: 72
-        };
+  // Read the page size, margins and column width of the section containing the range
+  private async getDocumentPageDimensions(context: Word.RequestContext, range: Word.Range): Promise<PageGeometry> {
+    try {
+      const ooxml = range.getRange(Word.RangeLocation.start).getOoxml();
+      await context.sync();
+      
+      const geometry = parseSectionGeometry(ooxml.value);
+      if (geometry) {
+        console.log('WordInserter: Page dimensions (points):', geometry.pageWidth, 'x', geometry.pageHeight);
+        console.log('WordInserter: Margins (points) - L:', geometry.marginLeft, 'R:', geometry.marginRight, 'T:', geometry.marginTop, 'B:', geometry.marginBottom);
+        console.log('WordInserter: Column width (points):', geometry.columnWidth);
+        return geometry;
       }
-    });
+      
+      console.log('WordInserter: No section properties found, using default Letter size with 1" margins');
+    } catch (error) {
+      console.log('WordInserter: Could not get page dimensions, using defaults:', error);
+    }
+    
+    // Fallback to US Letter size with 1" margins
+    return DEFAULT_PAGE_GEOMETRY;
+  }
+
+  // Floating pictures and text wrapping need the Word shapes API
+  private isFloatingLayoutSupported(): boolean {
+    return Office.context.requirements.isSetSupported('WordApiDesktop', '1.2');
+  }
+
+  // Insert a floating picture anchored at the start of the range, positioned across its text column
+  // and level with the top of the anchoring paragraph
+  private insertFloatingPicture(
+    range: Word.Range,
+    base64: string,
+    size: {width: number, height: number},
+    layout: WordLayout,
+    pageGeometry: PageGeometry,
+    diagramId: string
+  ): Word.Shape {
+    const shape = range.insertPictureFromBase64(base64, { width: size.width, height: size.height });
+
+    shape.textWrap.type = wordTextWrapTypes[layout.wrap as Exclude<WordTextWrap, 'inline'>];
+    shape.relativeHorizontalPosition = 'Column';
+    shape.relativeVerticalPosition = 'Paragraph';
+
+    const freeWidth = Math.max(pageGeometry.columnWidth - size.width, 0);
+    shape.left = layout.anchorPosition === 'left' ? 0 : layout.anchorPosition === 'right' ? freeWidth : freeWidth / 2;
+    shape.top = 0;
+    shape.altTextDescription = `MERMAID_ID:${diagramId}`;
+
+    return shape;
+  }
+
+  // Caption title for a diagram - its own title when it has one, otherwise its type
+  private getCaptionTitle(mermaidCode: string): string {
+    return getDiagramTitle(mermaidCode) || `${detectDiagramType(mermaidCode)} diagram`;
+  }
+
+  // Turn the paragraph into a "Figure N: title" caption for the diagram
+  private async insertCaption(context: Word.RequestContext, captionParagraph: Word.Paragraph, diagramId: string, mermaidCode: string): Promise<void> {
+    captionParagraph.styleBuiltIn = Word.BuiltInStyleName.caption;
+    captionParagraph.insertOoxml(buildCaptionLabelOoxml(), Word.InsertLocation.start);
+
+    const titleControl = captionParagraph.insertText(this.getCaptionTitle(mermaidCode), Word.InsertLocation.end).insertContentControl();
+    titleControl.tag = captionTag(diagramId);
+    titleControl.title = 'Mermaid diagram caption';
+    titleControl.appearance = Word.ContentControlAppearance.hidden;
+    await context.sync();
+
+    await this.updateFigureNumbers(context);
+  }
+
+  // Renumber the SEQ fields so captions after a new one move up. Without WordApi 1.5
+  // Word renumbers them the next time fields are updated (F9 or printing).
+  private async updateFigureNumbers(context: Word.RequestContext): Promise<void> {
+    if (!Office.context.requirements.isSetSupported('WordApi', '1.5')) {
+      console.log('WordInserter: Field updates need WordApi 1.5, figure numbers update when the document fields are refreshed');
+      return;
+    }
+
+    const sequenceFields = context.document.body.fields.getByTypes([Word.FieldType.seq]);
+    sequenceFields.load('items');
+    await context.sync();
+
+    sequenceFields.items.forEach(field => field.updateResult());
+    await context.sync();
+  }
+
+  // A copy-pasted diagram brings its caption along - point the copy's caption at the copy's new ID
+  private async retagCopiedCaption(context: Word.RequestContext, pictureParagraph: Word.Paragraph, oldId: string, newId: string): Promise<void> {
+    const captionParagraph = pictureParagraph.getNextOrNullObject();
+    captionParagraph.load('isNullObject');
+    await context.sync();
+
+    if (captionParagraph.isNullObject) {
+      return;
+    }
+
+    const captionControls = captionParagraph.contentControls.getByTag(captionTag(oldId));
+    captionControls.load('items');
+    await context.sync();
+    captionControls.items.forEach(control => control.tag = captionTag(newId));
   }
   
-  private calculateOptimalDiagramSize(svgWidth: number, svgHeight: number, pageWidth: number, pageHeight: number, marginLeft: number, marginRight: number, marginTop: number, marginBottom: number): {width: number, height: number} {
-    // Calculate available space (subtract margins)
-    const availableWidth = pageWidth - marginLeft - marginRight;
-    const availableHeight = pageHeight - marginTop - marginBottom;
+  private calculateOptimalDiagramSize(svgWidth: number, svgHeight: number, pageGeometry: PageGeometry, sizeLimits: DiagramSizeLimits): {width: number, height: number} {
+    // Calculate available space - one text column wide, the page height between margins,
+    // each reduced to the user's maximum percentage
+    const availableWidth = pageGeometry.columnWidth * sizeLimits.maxWidthPercent / 100;
+    const availableHeight = (pageGeometry.pageHeight - pageGeometry.marginTop - pageGeometry.marginBottom) * sizeLimits.maxHeightPercent / 100;
     
     console.log('WordInserter: Available space:', availableWidth, 'x', availableHeight, 'points');
     console.log('WordInserter: SVG aspect ratio:', svgWidth, 'x', svgHeight);
@@ -780,8 +1106,8 @@ Note: Word uses inline pictures instead of shapes like PowerPoint.`;
       console.log('WordInserter: Fitting to height');
     }
     
-    // Ensure minimum size (at least 2 inches wide or tall)
-    const minSize = 144; // 2 inches = 144 points
+    // Ensure minimum size (at least 2 inches wide or tall), but never beyond the user's limits
+    const minSize = Math.min(144, availableWidth, availableHeight); // 2 inches = 144 points
     if (targetWidth < minSize && targetHeight < minSize) {
       if (svgAspectRatio > 1) {
         targetWidth = minSize;
@@ -842,23 +1168,621 @@ Note: Word uses inline pictures instead of shapes like PowerPoint.`;
   }
 }
 
-// Factory function to get the appropriate inserter
-export function createDiagramInserter(): DiagramInserter {
-  const platform = detectOfficePlatform();
-  
-  switch (platform) {
-    case OfficePlatform.PowerPoint:
-      return new PowerPointInserter();
-    case OfficePlatform.Word:
-      return new WordInserter();
-    default:
-      throw new Error(`Unsupported platform: ${platform}`);
-  }
+// Excel implementation
+// A worksheet image tagged with a MERMAID_ID alt text
+interface ExcelDiagramShape {
+  diagramId: string;
+  worksheet: Excel.Worksheet;
+  worksheetName: string;
+  shape: Excel.Shape;
 }
 
-// Helper function to capture cursor position (Word only) - Legacy
-export async function captureCursorPosition(inserter: DiagramInserter): Promise<void> {
-  const platform = detectOfficePlatform();
+// New diagrams keep their natural size unless it is larger than this (points)
+const EXCEL_MAX_DIAGRAM_SIZE = { width: 720, height: 540 };
+
+class ExcelInserter implements DiagramInserter {
+  async insertDiagram(mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> {
+    console.log('ExcelInserter: Inserting diagram at the selected cell');
+    
+    // Worksheet shapes need ExcelApi 1.9
+    if (!Office.context.requirements.isSetSupported('ExcelApi', '1.9')) {
+      throw new Error('Inserting diagrams needs Excel 2019 or newer (ExcelApi 1.9).');
+    }
+    if (options.format === 'svg') {
+      console.log('ExcelInserter: Worksheet images are added as PNG, ignoring the SVG preference');
+    }
+    
+    await Excel.run(async (context) => {
+      const worksheet = context.workbook.worksheets.getActiveWorksheet();
+      const anchorCell = context.workbook.getSelectedRange().getCell(0, 0);
+      anchorCell.load(['left', 'top', 'address']);
+      await context.sync();
+      
+      const pngResult = await svgToPng(svgContent);
+      const size = fitWithin(pngResult.width, pngResult.height, { left: 0, top: 0, ...EXCEL_MAX_DIAGRAM_SIZE }, false);
+      
+      const diagramId = generateId();
+      const shape = worksheet.shapes.addImage(pngResult.base64);
+      shape.name = 'Mermaid Diagram';
+      shape.altTextDescription = `MERMAID_ID:${diagramId}`;
+      shape.left = anchorCell.left;
+      shape.top = anchorCell.top;
+      shape.width = size.width;
+      shape.height = size.height;
+      shape.lockAspectRatio = true;
+      await context.sync();
+      console.log(`ExcelInserter: Diagram placed at ${anchorCell.address}, size ${size.width}x${size.height}`);
+      
+      await saveDiagramRecord(context, context.workbook.customXmlParts, createDiagramRecord(diagramId, mermaidCode, {
+        imageFormat: 'png',
+        shapeTagged: true,
+        dataBinding: options.dataBinding
+      }));
+    });
+  }
+  
+  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string, options: DiagramUpdateOptions = {}): Promise<void> {
+    console.log('ExcelInserter: Updating diagram with ID:', diagramId);
+    
+    await Excel.run(async (context) => {
+      const existingRecord = await findDiagramRecord(context, context.workbook.customXmlParts, diagramId);
+      if (!existingRecord) {
+        throw new Error(`Diagram with ID ${diagramId} not found. It may have been deleted or moved.`);
+      }
+      
+      const diagramShape = (await this.findDiagramShapes(context)).find(candidate => candidate.diagramId === diagramId);
+      if (!diagramShape) {
+        throw new Error('Diagram image not found - no image with a matching MERMAID_ID alt text');
+      }
+      
+      // Images can't have their picture swapped, so add the new one in the old one's place
+      const oldShape = diagramShape.shape;
+      oldShape.load(['name', 'altTextTitle', 'left', 'top', 'width', 'height', 'placement', 'zOrderPosition']);
+      await context.sync();
+      
+      const pngResult = await svgToPng(svgContent);
+      const newShape = diagramShape.worksheet.shapes.addImage(pngResult.base64);
+      newShape.name = oldShape.name;
+      newShape.altTextDescription = `MERMAID_ID:${diagramId}`;
+      newShape.altTextTitle = oldShape.altTextTitle;
+      newShape.left = oldShape.left;
+      newShape.top = oldShape.top;
+      newShape.width = oldShape.width;
+      newShape.height = oldShape.height;
+      newShape.placement = oldShape.placement;
+      newShape.lockAspectRatio = true;
+      oldShape.delete();
+      
+      newShape.load('zOrderPosition');
+      await context.sync();
+      
+      // The new image starts on top - send it back to where the old one was
+      for (let position = newShape.zOrderPosition; position > oldShape.zOrderPosition; position--) {
+        newShape.setZOrder(Excel.ShapeZOrder.sendBackward);
+      }
+      await context.sync();
+      
+      await saveDiagramRecord(context, context.workbook.customXmlParts, withRevision(existingRecord, mermaidCode, options));
+      console.log('ExcelInserter: Diagram updated successfully');
+    });
+  }
+  
+  async getSelectedDiagram(): Promise<DiagramData | null> {
+    // Reading the selected shape needs ExcelApi 1.19 - older versions edit from the diagram list
+    if (!Office.context.requirements.isSetSupported('ExcelApi', '1.19')) {
+      console.log('ExcelInserter: Selected shape is not available before ExcelApi 1.19');
+      return null;
+    }
+    
+    return await Excel.run(async (context) => {
+      try {
+        const shape = context.workbook.getActiveShapeOrNullObject();
+        shape.load('altTextDescription');
+        await context.sync();
+        
+        if (shape.isNullObject || !shape.altTextDescription || !shape.altTextDescription.startsWith('MERMAID_ID:')) {
+          console.log('ExcelInserter: No Mermaid diagram selected');
+          return null;
+        }
+        
+        const record = await findDiagramRecord(context, context.workbook.customXmlParts, shape.altTextDescription.substring('MERMAID_ID:'.length));
+        return record ? { id: record.id, code: record.code, dataBinding: record.dataBinding } : null;
+        
+      } catch (error) {
+        console.error('ExcelInserter: Failed to get selected diagram:', error);
+        return null;
+      }
+    });
+  }
+  
+  async getDiagramHistory(diagramId: string): Promise<DiagramRevision[]> {
+    return await Excel.run(async (context) => {
+      const record = await findDiagramRecord(context, context.workbook.customXmlParts, diagramId);
+      return record ? record.revisions : [];
+    });
+  }
+  
+  // Collect every image carrying a MERMAID_ID alt text, across all worksheets
+  private async findDiagramShapes(context: Excel.RequestContext): Promise<ExcelDiagramShape[]> {
+    const worksheets = context.workbook.worksheets;
+    worksheets.load('items/name');
+    await context.sync();
+    
+    worksheets.items.forEach(worksheet => worksheet.shapes.load('items/altTextDescription'));
+    await context.sync();
+    
+    const diagramShapes: ExcelDiagramShape[] = [];
+    worksheets.items.forEach(worksheet => {
+      worksheet.shapes.items.forEach(shape => {
+        const altText = shape.altTextDescription;
+        if (altText && altText.startsWith('MERMAID_ID:')) {
+          diagramShapes.push({ diagramId: altText.substring('MERMAID_ID:'.length), worksheet, worksheetName: worksheet.name, shape });
+        }
+      });
+    });
+    
+    return diagramShapes;
+  }
+  
+  async listDiagrams(): Promise<DiagramInventoryItem[]> {
+    console.log('ExcelInserter: Building diagram inventory');
+    
+    return await Excel.run(async (context) => {
+      const records = await loadDiagramRecords(context, context.workbook.customXmlParts);
+      const diagramShapes = await this.findDiagramShapes(context);
+      
+      return records.map(record => {
+        const shapes = diagramShapes.filter(diagramShape => diagramShape.diagramId === record.id);
+        return {
+          id: record.id,
+          code: record.code,
+          diagramType: detectDiagramType(record.code),
+          createdAt: record.createdAt,
+          updatedAt: record.updatedAt,
+          location: shapes.length > 0
+            ? shapes.map(diagramShape => diagramShape.worksheetName).join(', ')
+            : 'Not found in workbook',
+          onCanvas: shapes.length > 0,
+          dataBinding: record.dataBinding
+        };
+      });
+    });
+  }
+  
+  // Excel can't select a shape from an add-in, so bring its worksheet to the front
+  async selectDiagram(diagramId: string): Promise<void> {
+    await Excel.run(async (context) => {
+      const diagramShape = (await this.findDiagramShapes(context)).find(candidate => candidate.diagramId === diagramId);
+      
+      if (!diagramShape) {
+        throw new Error(`Diagram ${diagramId} was not found in the workbook`);
+      }
+      
+      diagramShape.worksheet.activate();
+      await context.sync();
+    });
+  }
+  
+  async deleteDiagram(diagramId: string): Promise<void> {
+    console.log('ExcelInserter: Deleting diagram:', diagramId);
+    
+    await Excel.run(async (context) => {
+      const diagramShapes = (await this.findDiagramShapes(context)).filter(candidate => candidate.diagramId === diagramId);
+      diagramShapes.forEach(diagramShape => diagramShape.shape.delete());
+      await context.sync();
+      
+      await deleteDiagramRecord(context, context.workbook.customXmlParts, diagramId);
+      console.log(`ExcelInserter: Deleted ${diagramShapes.length} image(s) and metadata for diagram:`, diagramId);
+    });
+  }
+  
+  async checkDiagramIntegrity(): Promise<DiagramRepairReport> {
+    return await Excel.run(async (context) => {
+      const records = await loadDiagramRecords(context, context.workbook.customXmlParts);
+      const diagramShapes = await this.findDiagramShapes(context);
+      
+      return buildRepairReport(records, diagramShapes.map(diagramShape => ({
+        diagramId: diagramShape.diagramId,
+        location: diagramShape.worksheetName
+      })), true);
+    });
+  }
+  
+  async repairDiagrams(options: DiagramRepairOptions): Promise<DiagramRepairResult> {
+    console.log('ExcelInserter: Repairing diagrams with options:', options);
+    
+    return await Excel.run(async (context) => {
+      const customXmlParts = context.workbook.customXmlParts;
+      const records = await loadDiagramRecords(context, customXmlParts);
+      const diagramShapes = await this.findDiagramShapes(context);
+      const result: DiagramRepairResult = { purgedCount: 0, forkedCount: 0 };
+      
+      if (options.purgeOrphans) {
+        const orphanedIds = findOrphanedRecords(records, diagramShapes.map(diagramShape => diagramShape.diagramId), true).map(record => record.id);
+        result.purgedCount = await deleteDiagramRecords(context, customXmlParts, orphanedIds);
+      }
+      
+      if (options.forkDuplicates) {
+        for (const record of records) {
+          // The first image keeps the original ID, every copy gets its own
+          const copies = diagramShapes.filter(diagramShape => diagramShape.diagramId === record.id).slice(1);
+          for (const copy of copies) {
+            const newId = generateId();
+            copy.shape.altTextDescription = `MERMAID_ID:${newId}`;
+            await context.sync();
+            await saveDiagramRecord(context, customXmlParts, forkDiagramRecord(record, newId));
+            result.forkedCount++;
+          }
+        }
+      }
+      
+      console.log('ExcelInserter: Repair finished:', result);
+      return result;
+    });
+  }
+  
+  async listStoredDiagrams(): Promise<string> {
+    return await Excel.run(async (context) => {
+      try {
+        const records = await loadDiagramRecords(context, context.workbook.customXmlParts);
+        
+        if (records.length === 0) {
+          return 'No Mermaid diagrams found in this workbook.';
+        }
+        
+        return `Found ${records.length} Mermaid diagram(s):\n\n` +
+          records.map((record, index) =>
+            `${index + 1}. ID: ${record.id}\n   Created: ${record.createdAt}\n   Code: ${record.code.substring(0, 50)}...`
+          ).join('\n\n');
+          
+      } catch (error) {
+        return `Error listing diagrams: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    });
+  }
+  
+  async getSelectedShapeInfo(): Promise<string> {
+    if (!Office.context.requirements.isSetSupported('ExcelApi', '1.19')) {
+      return 'Reading the selected shape needs a newer version of Excel (ExcelApi 1.19).';
+    }
+    
+    return await Excel.run(async (context) => {
+      try {
+        const shape = context.workbook.getActiveShapeOrNullObject();
+        shape.load(['name', 'type', 'left', 'top', 'width', 'height', 'altTextDescription']);
+        await context.sync();
+        
+        if (shape.isNullObject) {
+          return 'No shape selected in Excel.';
+        }
+        
+        return `Selected Excel Shape Info:
+- Name: ${shape.name}
+- Type: ${shape.type}
+- Position: ${shape.left}, ${shape.top}
+- Size: ${shape.width} x ${shape.height}
+- Alt text: ${shape.altTextDescription || '(none)'}`;
+        
+      } catch (error) {
+        return `Error getting shape info: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    });
+  }
+}
+
+// Outlook implementation
+// Diagrams live in the message body - see outlookBody.ts for how their source travels with them
+
+// Wider pictures overflow the reading pane in most mail clients (pixels)
+const OUTLOOK_MAX_DIAGRAM_WIDTH = 600;
+
+// Wrap an Office callback-style call in a promise
+const officeAsync = <T>(call: (callback: (result: Office.AsyncResult<T>) => void) => void): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    call((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve(result.value);
+      } else {
+        reject(new Error(result.error?.message || 'Unknown error'));
+      }
+    });
+  });
+};
+
+// The selected HTML from getSelectedDataAsync. The typings declare a string, but Outlook
+// documents and returns { data, sourceProperty }, so accept either.
+const selectedHtml = (selection: string | { data?: string } | null): string => {
+  if (typeof selection === 'string') {
+    return selection;
+  }
+  return selection && typeof selection.data === 'string' ? selection.data : '';
+};
+
+class OutlookInserter implements DiagramInserter {
+  private getItem() {
+    const item = Office.context.mailbox.item;
+    if (!item) {
+      throw new Error('No message is open');
+    }
+    return item;
+  }
+  
+  // Messages being read have no body setters - diagrams can only be changed while composing
+  private isComposeMode(): boolean {
+    const item = Office.context.mailbox.item;
+    return !!item && typeof item.body.setAsync === 'function';
+  }
+  
+  private requireComposeMode(action: string): void {
+    if (!this.isComposeMode()) {
+      throw new Error(`Diagrams can only be ${action} while composing. Reply to or forward the message to edit its diagrams.`);
+    }
+    // Inline attachments from base64 need Mailbox 1.8
+    if (!Office.context.requirements.isSetSupported('Mailbox', '1.8')) {
+      throw new Error('Diagrams in messages need a newer version of Outlook (Mailbox 1.8).');
+    }
+  }
+  
+  private readBody(): Promise<string> {
+    return officeAsync<string>(callback => this.getItem().body.getAsync(Office.CoercionType.Html, callback));
+  }
+  
+  private writeBody(html: string): Promise<void> {
+    return officeAsync<void>(callback => this.getItem().body.setAsync(html, { coercionType: Office.CoercionType.Html }, callback));
+  }
+  
+  // Render the diagram and add it to the message as an inline attachment
+  private async attachPicture(diagramId: string, svgContent: string): Promise<{contentId: string, width: number, height: number}> {
+    const pngResult = await svgToPng(svgContent);
+    const scale = Math.min(1, OUTLOOK_MAX_DIAGRAM_WIDTH / pngResult.width);
+    const contentId = diagramContentId(diagramId);
+    
+    await officeAsync<string>(callback => this.getItem().addFileAttachmentFromBase64Async(pngResult.base64, contentId, { isInline: true }, callback));
+    console.log(`OutlookInserter: Attached ${contentId}, ${pngResult.width}x${pngResult.height}`);
+    
+    return { contentId, width: pngResult.width * scale, height: pngResult.height * scale };
+  }
+  
+  // Remove the diagram's inline attachments that no picture in the body refers to any more.
+  // Copies forked by repair keep pointing at the original attachment, so it stays while they do.
+  private async removeUnusedAttachments(diagramId: string, html: string): Promise<void> {
+    const usedContentIds = new Set(readBodyDiagrams(html).images.map(image => image.contentId));
+    const item = this.getItem();
+    const attachments = await officeAsync<Office.AttachmentDetailsCompose[]>(callback => item.getAttachmentsAsync(callback));
+    
+    for (const attachment of attachments) {
+      if (attachment.isInline && attachment.name.startsWith(`${diagramId}-`) && !usedContentIds.has(attachment.name)) {
+        await officeAsync<void>(callback => item.removeAttachmentAsync(attachment.id, {}, callback));
+        console.log('OutlookInserter: Removed unused attachment', attachment.name);
+      }
+    }
+  }
+  
+  async insertDiagram(mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> {
+    console.log('OutlookInserter: Inserting diagram at the cursor');
+    this.requireComposeMode('inserted');
+    
+    const item = this.getItem();
+    const bodyType = await officeAsync<Office.CoercionType>(callback => item.body.getTypeAsync(callback));
+    if (bodyType !== Office.CoercionType.Html) {
+      throw new Error('Diagrams can only be inserted into HTML messages. Change the message format to HTML and try again.');
+    }
+    if (options.format === 'svg') {
+      console.log('OutlookInserter: Mail clients block SVG images, inserting PNG instead');
+    }
+    
+    const diagramId = generateId();
+    const record = createDiagramRecord(diagramId, mermaidCode, {
+      imageFormat: 'png',
+      shapeTagged: true,
+      dataBinding: options.dataBinding
+    });
+    const picture = await this.attachPicture(diagramId, svgContent);
+    
+    await officeAsync<void>(callback => item.body.setSelectedDataAsync(
+      buildDiagramHtml(record, picture.contentId, picture.width, picture.height),
+      { coercionType: Office.CoercionType.Html },
+      callback
+    ));
+    console.log('OutlookInserter: Diagram inserted with ID:', diagramId);
+  }
+  
+  async updateDiagram(diagramId: string, mermaidCode: string, svgContent: string, options: DiagramUpdateOptions = {}): Promise<void> {
+    console.log('OutlookInserter: Updating diagram with ID:', diagramId);
+    this.requireComposeMode('updated');
+    
+    const html = await this.readBody();
+    const bodyDiagrams = readBodyDiagrams(html);
+    const existingRecord = bodyDiagrams.records.find(record => record.id === diagramId);
+    if (!existingRecord) {
+      throw new Error(`Diagram with ID ${diagramId} not found. It may have been deleted or moved.`);
+    }
+    if (!bodyDiagrams.images.some(image => image.diagramId === diagramId)) {
+      throw new Error('Diagram picture not found - no picture in the message body with a matching MERMAID_ID alt text');
+    }
+    
+    const picture = await this.attachPicture(diagramId, svgContent);
+    const updatedHtml = replaceBodyDiagram(html, withRevision(existingRecord, mermaidCode, options), picture.contentId, picture.width, picture.height);
+    if (!updatedHtml) {
+      throw new Error('Diagram picture not found in the message body');
+    }
+    
+    await this.writeBody(updatedHtml);
+    await this.removeUnusedAttachments(diagramId, updatedHtml);
+    console.log('OutlookInserter: Diagram updated successfully');
+  }
+  
+  async getSelectedDiagram(): Promise<DiagramData | null> {
+    try {
+      const bodyDiagrams = readBodyDiagrams(await this.readBody());
+      
+      // A message being read has no selection - open its first diagram so recipients can see the source
+      if (!this.isComposeMode()) {
+        const firstImage = bodyDiagrams.images.find(image => bodyDiagrams.records.some(record => record.id === image.diagramId));
+        const firstRecord = firstImage ? bodyDiagrams.records.find(record => record.id === firstImage.diagramId) : undefined;
+        return firstRecord ? { id: firstRecord.id, code: firstRecord.code, dataBinding: firstRecord.dataBinding } : null;
+      }
+      
+      const selection = await officeAsync<string>(callback => this.getItem().getSelectedDataAsync(Office.CoercionType.Html, callback));
+      const selectedImages = readBodyDiagrams(selectedHtml(selection)).images;
+      if (selectedImages.length === 0) {
+        console.log('OutlookInserter: No Mermaid diagram selected');
+        return null;
+      }
+      
+      // The selection rarely includes the hidden source, so look it up in the whole body
+      const record = bodyDiagrams.records.find(candidate => candidate.id === selectedImages[0].diagramId);
+      return record ? { id: record.id, code: record.code, dataBinding: record.dataBinding } : null;
+      
+    } catch (error) {
+      console.error('OutlookInserter: Failed to get selected diagram:', error);
+      return null;
+    }
+  }
+  
+  async getDiagramHistory(diagramId: string): Promise<DiagramRevision[]> {
+    const record = readBodyDiagrams(await this.readBody()).records.find(candidate => candidate.id === diagramId);
+    return record ? record.revisions : [];
+  }
+  
+  // Where each diagram picture sits, numbered in body order
+  private pictureLocations(bodyDiagrams: BodyDiagrams): { diagramId: string, location: string }[] {
+    return bodyDiagrams.images.map((image, index) => ({ diagramId: image.diagramId, location: `Picture ${index + 1}` }));
+  }
+  
+  async listDiagrams(): Promise<DiagramInventoryItem[]> {
+    console.log('OutlookInserter: Building diagram inventory');
+    
+    const bodyDiagrams = readBodyDiagrams(await this.readBody());
+    const placements = this.pictureLocations(bodyDiagrams);
+    
+    return bodyDiagrams.records.map(record => {
+      const locations = placements.filter(placement => placement.diagramId === record.id).map(placement => placement.location);
+      return {
+        id: record.id,
+        code: record.code,
+        diagramType: detectDiagramType(record.code),
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        location: locations.length > 0 ? locations.join(', ') : 'Not found in message',
+        onCanvas: locations.length > 0,
+        dataBinding: record.dataBinding
+      };
+    });
+  }
+  
+  // Outlook can't select content in the message body from an add-in
+  async selectDiagram(diagramId: string): Promise<void> {
+    const bodyDiagrams = readBodyDiagrams(await this.readBody());
+    if (!bodyDiagrams.images.some(image => image.diagramId === diagramId)) {
+      throw new Error(`Diagram ${diagramId} was not found in the message`);
+    }
+    console.log('OutlookInserter: Selecting pictures in the message body is not supported');
+  }
+  
+  async deleteDiagram(diagramId: string): Promise<void> {
+    console.log('OutlookInserter: Deleting diagram:', diagramId);
+    this.requireComposeMode('deleted');
+    
+    const updatedHtml = removeBodyDiagram(await this.readBody(), diagramId, true);
+    await this.writeBody(updatedHtml);
+    await this.removeUnusedAttachments(diagramId, updatedHtml);
+  }
+  
+  async checkDiagramIntegrity(): Promise<DiagramRepairReport> {
+    const bodyDiagrams = readBodyDiagrams(await this.readBody());
+    return buildRepairReport(bodyDiagrams.records, this.pictureLocations(bodyDiagrams), true);
+  }
+  
+  async repairDiagrams(options: DiagramRepairOptions): Promise<DiagramRepairResult> {
+    console.log('OutlookInserter: Repairing diagrams with options:', options);
+    this.requireComposeMode('repaired');
+    
+    const originalHtml = await this.readBody();
+    const bodyDiagrams = readBodyDiagrams(originalHtml);
+    const result: DiagramRepairResult = { purgedCount: 0, forkedCount: 0 };
+    let html = originalHtml;
+    
+    if (options.purgeOrphans) {
+      findOrphanedRecords(bodyDiagrams.records, bodyDiagrams.images.map(image => image.diagramId), true).forEach(record => {
+        html = removeBodyDiagram(html, record.id, false);
+        result.purgedCount++;
+      });
+    }
+    
+    if (options.forkDuplicates) {
+      const forked = forkBodyDuplicates(html, forkDiagramRecord, generateId);
+      html = forked.html;
+      result.forkedCount = forked.forkedCount;
+    }
+    
+    if (html !== originalHtml) {
+      await this.writeBody(html);
+    }
+    
+    console.log('OutlookInserter: Repair finished:', result);
+    return result;
+  }
+  
+  async listStoredDiagrams(): Promise<string> {
+    try {
+      const records = readBodyDiagrams(await this.readBody()).records;
+      
+      if (records.length === 0) {
+        return 'No Mermaid diagrams found in this message.';
+      }
+      
+      return `Found ${records.length} Mermaid diagram(s):\n\n` +
+        records.map((record, index) =>
+          `${index + 1}. ID: ${record.id}\n   Created: ${record.createdAt}\n   Code: ${record.code.substring(0, 50)}...`
+        ).join('\n\n');
+        
+    } catch (error) {
+      return `Error listing diagrams: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+  
+  async getSelectedShapeInfo(): Promise<string> {
+    if (!this.isComposeMode()) {
+      return 'Outlook only exposes the selection while composing a message.';
+    }
+    
+    try {
+      const selection = await officeAsync<string>(callback => this.getItem().getSelectedDataAsync(Office.CoercionType.Html, callback));
+      const html = selectedHtml(selection);
+      const selectedImages = readBodyDiagrams(html).images;
+      
+      return `Selected Outlook Content Info:
+- Length: ${html.length} characters of HTML
+- Diagram pictures: ${selectedImages.length > 0 ? selectedImages.map(image => image.diagramId).join(', ') : '(none)'}`;
+      
+    } catch (error) {
+      return `Error getting selection info: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+// Factory function to get the appropriate inserter
+export function createDiagramInserter(): DiagramInserter {
+  const platform = detectOfficePlatform();
+  
+  switch (platform) {
+    case OfficePlatform.PowerPoint:
+      return new PowerPointInserter();
+    case OfficePlatform.Word:
+      return new WordInserter();
+    case OfficePlatform.Excel:
+      return new ExcelInserter();
+    case OfficePlatform.Outlook:
+      return new OutlookInserter();
+    default:
+      throw new Error(`Unsupported platform: ${platform}`);
+  }
+}
+
+// Helper function to capture cursor position (Word only) - Legacy
+export async function captureCursorPosition(inserter: DiagramInserter): Promise<void> {
+  const platform = detectOfficePlatform();
   if (platform === OfficePlatform.Word && inserter.captureCursorPosition) {
     console.log('Capturing cursor position before task pane interaction (legacy)');
     await inserter.captureCursorPosition();
@@ -889,6 +1813,70 @@ export async function insertAtCurrentPosition(inserter: DiagramInserter): Promis
   }
 }
 
+export async function insertTableOfFigures(inserter: DiagramInserter): Promise<void> {
+  const platform = detectOfficePlatform();
+  if (platform === OfficePlatform.Word && inserter.insertTableOfFigures) {
+    await inserter.insertTableOfFigures();
+  } else {
+    throw new Error('A table of figures can only be inserted in Word');
+  }
+}
+
+// Read the used part of an Excel range as text for data import
+const readRangeCells = async (context: Excel.RequestContext, range: Excel.Range): Promise<string[][]> => {
+  const usedRange = range.getUsedRangeOrNullObject(true);
+  usedRange.load(['address', 'values', 'numberFormat', 'text']);
+  await context.sync();
+  
+  if (usedRange.isNullObject) {
+    throw new Error('The selected cells are empty');
+  }
+  
+  console.log('Read range for data import:', usedRange.address);
+  return rangeCellsToText(usedRange.values, usedRange.numberFormat, usedRange.text);
+};
+
+// Read the selected cells for data import (Excel only). The address is the selection itself,
+// so whole columns stay linked to rows added later.
+export const readSelectedRange = async (): Promise<{ address: string, cells: string[][] }> => {
+  if (detectOfficePlatform() !== OfficePlatform.Excel) {
+    throw new Error('Importing from a range is only available in Excel');
+  }
+  
+  return await Excel.run(async (context) => {
+    const range = context.workbook.getSelectedRange();
+    range.load('address');
+    await context.sync();
+    
+    return { address: range.address, cells: await readRangeCells(context, range) };
+  });
+};
+
+// The current data of a linked diagram: its workbook range (Excel only) or embedded CSV
+export const readDataBinding = async (binding: DataBinding): Promise<string[][]> => {
+  if (binding.source === 'csv') {
+    return parseDelimitedText(binding.csv || '');
+  }
+  
+  if (detectOfficePlatform() !== OfficePlatform.Excel || !binding.address) {
+    throw new Error('Diagrams linked to a workbook range can only be refreshed in Excel');
+  }
+  
+  const address = binding.address;
+  return await Excel.run(async (context) => {
+    // Addresses look like Sheet1!A1:D12 or 'Q3 Plan'!A:D
+    const separator = address.lastIndexOf('!');
+    const worksheetName = address.substring(0, separator).replace(/^'(.*)'$/, '$1').replace(/''/g, "'");
+    const worksheet = context.workbook.worksheets.getItemOrNullObject(worksheetName);
+    await context.sync();
+    
+    if (worksheet.isNullObject) {
+      throw new Error(`Worksheet "${worksheetName}" of the linked range no longer exists`);
+    }
+    return await readRangeCells(context, worksheet.getRange(address.substring(separator + 1)));
+  });
+};
+
 export interface MermaidSettings {
   fontFamily: string;
   fontSize: number;
@@ -900,6 +1888,17 @@ export interface MermaidSettings {
   secondaryColor: string;
   tertiaryColor: string;
   theme: 'default' | 'dark' | 'forest' | 'base' | 'custom';
+  insertionFormat: DiagramImageFormat;
+  placement: DiagramPlacement; // Where new PowerPoint diagrams go on the slide
+  slideSize: SlideSize; // Office.js can't read the slide size - used only when the slide master can't be read either
+  slideMargin: number; // Points kept clear around the slide edge by "center" and "fit" when using slideSize
+  wordMaxWidthPercent: number; // Largest share of the column width a new Word diagram may take
+  wordMaxHeightPercent: number; // Largest share of the page text height a new Word diagram may take
+  wordTextWrap: WordTextWrap; // Inline, or a floating picture with this text wrapping
+  wordAnchorPosition: WordAnchorPosition; // Where a floating picture sits across its column
+  wordCaptions: boolean; // Add a "Figure N: title" caption below new inline Word diagrams
+  livePreview: boolean; // Re-render the preview as you type instead of on "Update Preview"
+  securityLevel: MermaidSecurityLevel; // What diagram content Mermaid allows: HTML in labels, click handlers. The organization's security policy can require stricter
 }
 
 export const defaultSettings: MermaidSettings = {
@@ -912,12 +1911,24 @@ export const defaultSettings: MermaidSettings = {
   backgroundColor: '#ffffff',
   secondaryColor: '#e6f3ff',
   tertiaryColor: '#b3d9ff',
-  theme: 'default'
+  theme: 'default',
+  insertionFormat: 'svg',
+  placement: 'center',
+  slideSize: 'widescreen',
+  slideMargin: 36,
+  wordMaxWidthPercent: 100,
+  wordMaxHeightPercent: 100,
+  wordTextWrap: 'inline',
+  wordAnchorPosition: 'center',
+  wordCaptions: false,
+  livePreview: false,
+  securityLevel: 'strict'
 };
 
 // Convert SVG to base64 PNG with transparent background and correct dimensions
 export const svgToPng = (svgString: string): Promise<{base64: string, width: number, height: number}> => {
   return new Promise((resolve, reject) => {
+    const safeSvg = sanitizeSvg(svgString);
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     const img = new Image();
@@ -963,15 +1974,279 @@ export const svgToPng = (svgString: string): Promise<{base64: string, width: num
       }
     };
     
-    img.onerror = (err) => {
-      console.error('Failed to load SVG image:', err);
-      reject(new Error('Failed to load diagram image'));
-    };
+    img.onerror = (err) => {
+      console.error('Failed to load SVG image:', err);
+      reject(new Error('Failed to load diagram image'));
+    };
+    
+    // Use data URL directly instead of blob URL to avoid CORS
+    const svgDataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(safeSvg)}`;
+    img.src = svgDataUrl;
+  });
+};
+
+// Measure the natural pixel size of an SVG by letting the browser lay it out
+const measureSvg = (svgString: string): Promise<{width: number, height: number}> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Failed to load diagram image'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgString)}`;
+  });
+};
+
+// Mermaid emits width="100%" with a max-width style, which Office cannot size.
+// Pin explicit pixel dimensions on the root element before handing it to the host.
+const prepareSvgForInsertion = (svgString: string, width: number, height: number): string => {
+  const svgDoc = new DOMParser().parseFromString(svgString, 'image/svg+xml');
+  const svgElement = svgDoc.documentElement;
+  
+  if (!svgElement || svgElement.tagName.toLowerCase() !== 'svg') {
+    return svgString;
+  }
+  
+  svgElement.setAttribute('width', String(Math.round(width)));
+  svgElement.setAttribute('height', String(Math.round(height)));
+  svgElement.style.removeProperty('max-width');
+  
+  return new XMLSerializer().serializeToString(svgElement);
+};
+
+// SVG coercion needs the ImageCoercion 1.2 requirement set
+export const isSvgInsertionSupported = (): boolean => {
+  return isOfficeContext && Office.context.requirements.isSetSupported('ImageCoercion', '1.2');
+};
+
+// Place an image into the current slide with setSelectedDataAsync.
+// Tries SVG first when requested and supported, falling back to PNG if the host rejects it.
+// Resolves with the format that was actually inserted.
+const insertImageIntoSlide = async (
+  svgContent: string,
+  preferredFormat: DiagramImageFormat,
+  placement: {left: number, top: number, width?: number, height?: number}
+): Promise<DiagramImageFormat> => {
+  const setSelectedData = (data: string, coercionType: Office.CoercionType, width: number, height: number): Promise<void> => {
+    return new Promise<void>((resolve, reject) => {
+      if (typeof Office !== 'undefined' && Office.context && Office.context.document) {
+        Office.context.document.setSelectedDataAsync(
+          data,
+          {
+            coercionType,
+            imageLeft: placement.left,
+            imageTop: placement.top,
+            imageWidth: width,
+            imageHeight: height
+          },
+          (result) => {
+            if (result.status === Office.AsyncResultStatus.Succeeded) {
+              resolve();
+            } else {
+              reject(new Error(`Office API insertion failed: ${result.error?.message || 'Unknown error'}`));
+            }
+          }
+        );
+      } else {
+        reject(new Error('Office context not available'));
+      }
+    });
+  };
+  
+  if (preferredFormat === 'svg' && isSvgInsertionSupported()) {
+    try {
+      const naturalSize = await measureSvg(svgContent);
+      const width = placement.width || naturalSize.width;
+      const height = placement.height || naturalSize.height;
+      const svgForInsertion = prepareSvgForInsertion(svgContent, naturalSize.width, naturalSize.height);
+      
+      await setSelectedData(svgForInsertion, Office.CoercionType.XmlSvg, width, height);
+      console.log('SVG insertion via Office.context successful!');
+      return 'svg';
+    } catch (svgError) {
+      console.warn('SVG insertion rejected by host, falling back to PNG:', svgError);
+    }
+  } else if (preferredFormat === 'svg') {
+    console.log('ImageCoercion 1.2 not supported, falling back to PNG');
+  }
+  
+  const pngResult = await svgToPng(svgContent);
+  console.log('SVG to PNG conversion successful, dimensions:', pngResult.width, 'x', pngResult.height);
+  
+  await setSelectedData(
+    pngResult.base64,  // Just the base64 string, not the full data URL
+    Office.CoercionType.Image,
+    placement.width || pngResult.width,
+    placement.height || pngResult.height
+  );
+  console.log('PNG insertion via Office.context successful!');
+  return 'png';
+};
+
+// Where an image is about to be inserted, and what was on that slide beforehand
+interface InsertionSnapshot {
+  slideId: string;
+  previousShapeIds: string[];
+  insertedShapeId?: string; // Known up front when the shapes API created the shape
+}
+
+// Shapes API insertion needs ShapeFill.setImage from PowerPointApi 1.8
+const isShapeFillInsertionSupported = (): boolean => {
+  return isOfficeContext && Office.context.requirements.isSetSupported('PowerPointApi', '1.8');
+};
+
+// Insert the diagram as a borderless rectangle with the rendered PNG as its picture fill.
+// Unlike setSelectedDataAsync this returns the shape, and updates can later swap the fill in place.
+const addDiagramShape = async (
+  context: PowerPoint.RequestContext,
+  slide: PowerPoint.Slide,
+  svgContent: string,
+  bounds: PlacementBounds
+): Promise<PowerPoint.Shape> => {
+  const pngResult = await svgToPng(svgContent);
+  
+  const shape = slide.shapes.addGeometricShape(PowerPoint.GeometricShapeType.rectangle, bounds);
+  shape.fill.setImage(pngResult.base64);
+  shape.lineFormat.visible = false;
+  shape.name = 'Mermaid Diagram';
+  shape.load('id');
+  await context.sync();
+  
+  console.log('Diagram shape added via shapes API:', shape.id);
+  return shape;
+};
+
+// Placeholder types a diagram can stand in for - titles, footers and the like are left alone.
+// String values rather than PowerPoint.PlaceholderType, which is undefined outside PowerPoint and
+// before PowerPointApi 1.8, and this module loads in every host.
+const contentPlaceholderTypes: string[] = [
+  'Content',
+  'VerticalContent',
+  'Body',
+  'Picture',
+  'OnlinePicture',
+  'Chart',
+  'Table',
+  'SmartArt',
+  'Media'
+];
+
+// The selected shape, if it is an empty content placeholder (needs PowerPointApi 1.8 for placeholderFormat)
+const getSelectedEmptyPlaceholder = async (context: PowerPoint.RequestContext): Promise<{shape: PowerPoint.Shape, binding: PlaceholderBinding} | null> => {
+  if (!Office.context.requirements.isSetSupported('PowerPointApi', '1.8')) {
+    return null;
+  }
+  
+  try {
+    const selectedShapes = context.presentation.getSelectedShapes();
+    selectedShapes.load('items/id,items/type,items/left,items/top,items/width,items/height');
+    await context.sync();
+    
+    if (selectedShapes.items.length !== 1 || selectedShapes.items[0].type !== PowerPoint.ShapeType.placeholder) {
+      return null;
+    }
+    
+    const shape = selectedShapes.items[0];
+    shape.placeholderFormat.load('type,containedType');
+    await context.sync();
+    
+    // containedType is null for a placeholder nothing has been put into yet
+    if (shape.placeholderFormat.containedType !== null || !contentPlaceholderTypes.includes(shape.placeholderFormat.type)) {
+      return null;
+    }
+    
+    return {
+      shape,
+      binding: {
+        placeholderType: shape.placeholderFormat.type,
+        left: shape.left,
+        top: shape.top,
+        width: shape.width,
+        height: shape.height
+      }
+    };
+  } catch (selectionError) {
+    console.log('Could not inspect selected placeholder:', selectionError);
+    return null;
+  }
+};
+
+// Bounds of the first selected shape, used by the "selection" placement
+const getSelectedShapeBounds = async (context: PowerPoint.RequestContext): Promise<PlacementBounds | null> => {
+  try {
+    const selectedShapes = context.presentation.getSelectedShapes();
+    selectedShapes.load('items/left,items/top,items/width,items/height');
+    await context.sync();
+    
+    if (selectedShapes.items.length === 0) {
+      return null;
+    }
     
-    // Use data URL directly instead of blob URL to avoid CORS
-    const svgDataUrl = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgString)}`;
-    img.src = svgDataUrl;
-  });
+    const { left, top, width, height } = selectedShapes.items[0];
+    return { left, top, width, height };
+  } catch (selectionError) {
+    console.log('Could not read selected shape bounds:', selectionError);
+    return null;
+  }
+};
+
+// The content area of the slide's master, from its placeholders. Shape types and positions need
+// PowerPointApi 1.4; null before that or when the master has no usable placeholders.
+const getMasterContentArea = async (context: PowerPoint.RequestContext, slide: PowerPoint.Slide): Promise<PlacementBounds | null> => {
+  if (!Office.context.requirements.isSetSupported('PowerPointApi', '1.4')) {
+    return null;
+  }
+  
+  try {
+    const shapes = slide.slideMaster.shapes;
+    shapes.load('items/type,items/left,items/top,items/width,items/height');
+    await context.sync();
+    
+    // Plain string rather than PowerPoint.ShapeType, like the placeholder types above
+    const placeholders = shapes.items.filter(shape => shape.type === 'Placeholder');
+    return masterContentArea(placeholders.map(({ left, top, width, height }) => ({ left, top, width, height })));
+  } catch (masterError) {
+    console.log('Could not read the slide master placeholders:', masterError);
+    return null;
+  }
+};
+
+// Shape IDs on a slide, captured before inserting so the new shape can be told apart afterwards
+const snapshotShapeIds = async (context: PowerPoint.RequestContext, slide: PowerPoint.Slide): Promise<string[]> => {
+  const shapes = slide.shapes;
+  shapes.load('items/id');
+  await context.sync();
+  return shapes.items.map(shape => shape.id);
+};
+
+// Delays between looks for the inserted shape - setSelectedDataAsync can report success
+// before the shape shows up in the slide's shape collection
+const NEW_SHAPE_RETRY_DELAYS_MS = [100, 200, 400, 800, 1600];
+
+// Wait for exactly the shape added since the snapshot was taken
+const waitForNewShape = async (
+  context: PowerPoint.RequestContext,
+  slide: PowerPoint.Slide,
+  previousShapeIds: string[]
+): Promise<PowerPoint.Shape> => {
+  for (let attempt = 0; attempt <= NEW_SHAPE_RETRY_DELAYS_MS.length; attempt++) {
+    const shapes = slide.shapes;
+    shapes.load('items/id');
+    await context.sync();
+    
+    const newShapes = shapes.items.filter(shape => !previousShapeIds.includes(shape.id));
+    if (newShapes.length === 1) {
+      return newShapes[0];
+    }
+    if (newShapes.length > 1) {
+      throw new Error(`Expected one new shape on the slide but found ${newShapes.length} - the slide changed during insertion`);
+    }
+    
+    if (attempt < NEW_SHAPE_RETRY_DELAYS_MS.length) {
+      console.log(`Inserted shape not visible yet, retrying in ${NEW_SHAPE_RETRY_DELAYS_MS[attempt]}ms`);
+      await new Promise(resolve => setTimeout(resolve, NEW_SHAPE_RETRY_DELAYS_MS[attempt]));
+    }
+  }
+  
+  throw new Error('The diagram image was inserted but no new shape appeared on the slide');
 };
 
 // Generate unique ID for diagrams
@@ -986,7 +2261,7 @@ const base64ToBlob = async (base64: string, mimeType: string): Promise<Blob> =>
 };
 
 // Store diagram data in custom XML part with shape association
-const storeDiagramData = async (diagramId: string, mermaidCode: string): Promise<void> => {
+const storeDiagramData = async (diagramId: string, mermaidCode: string, imageFormat: DiagramImageFormat, dataBinding?: DataBinding): Promise<void> => {
   return PowerPoint.run(async (context) => {
     const presentation = context.presentation;
     const customXmlParts = presentation.customXmlParts;
@@ -1013,91 +2288,70 @@ const storeDiagramData = async (diagramId: string, mermaidCode: string): Promise
       }
     }
     
-    const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-      <MermaidDiagram>
-        <Id>${diagramId}</Id>
-        <Code><![CDATA[${mermaidCode}]]></Code>
-        <ShapeInfo>${shapeInfo}</ShapeInfo>
-        <CreatedAt>${new Date().toISOString()}</CreatedAt>
-      </MermaidDiagram>
-    `;
-    
-    customXmlParts.add(xmlContent);
-    await context.sync();
+    await saveDiagramRecord(context, customXmlParts, createDiagramRecord(diagramId, mermaidCode, {
+      imageFormat,
+      shapeTagged: false,
+      shapeInfo: shapeInfo || undefined,
+      dataBinding
+    }));
     console.log('Diagram data stored with ID:', diagramId, 'and shape info:', shapeInfo);
   });
 };
 
 // Store diagram data after insertion and tag the shape
-const storeDiagramDataAfterInsertion = async (diagramId: string, mermaidCode: string): Promise<string> => {
+const storeDiagramDataAfterInsertion = async (
+  diagramId: string,
+  mermaidCode: string,
+  imageFormat: DiagramImageFormat,
+  snapshot: InsertionSnapshot,
+  placeholderBinding?: PlaceholderBinding,
+  dataBinding?: DataBinding
+): Promise<string> => {
   let debugLog = 'STORAGE DEBUG LOG:\n';
   debugLog += `Starting storage after insertion for diagram ID: ${diagramId}\n`;
   
-  // Wait a short moment for the insertion to complete
-  await new Promise(resolve => setTimeout(resolve, 1000));
-  debugLog += 'Waited 1 second for insertion to complete\n';
-  
   try {
     return PowerPoint.run(async (context) => {
       debugLog += 'PowerPoint.run started for storage\n';
       const presentation = context.presentation;
       const customXmlParts = presentation.customXmlParts;
       
-      // Get the most recently added shape and tag it with our diagram ID
-      const slides = context.presentation.getSelectedSlides();
-      slides.load('items');
+      // Find exactly the shape the insertion added to the slide and tag it with our diagram ID
+      const slide = presentation.slides.getItem(snapshot.slideId);
+      const newShape = snapshot.insertedShapeId
+        ? slide.shapes.getItem(snapshot.insertedShapeId)
+        : await waitForNewShape(context, slide, snapshot.previousShapeIds);
+      newShape.load(['id', 'left', 'top', 'width', 'height']);
       await context.sync();
-      debugLog += `Loaded slides, count: ${slides.items.length}\n`;
+      debugLog += `Identified inserted shape: ${newShape.id} (${snapshot.previousShapeIds.length} shapes were already on the slide)\n`;
       
       let shapeTagged = false;
-      if (slides.items.length > 0) {
-        const slide = slides.items[0];
-        const shapes = slide.shapes;
-        shapes.load('items');
+      let shapeInfo = '';
+      try {
+        // Tag the shape with our diagram ID using shape tags
+        newShape.tags.add('mermaid_diagram_id', diagramId);
         await context.sync();
-        debugLog += `Loaded shapes on slide, count: ${shapes.items.length}\n`;
-        
-        if (shapes.items.length > 0) {
-          // Get the last shape (most recently added) and tag it
-          const lastShape = shapes.items[shapes.items.length - 1];
-          lastShape.load(['left', 'top', 'width', 'height']);
-          
-          try {
-            // Tag the shape with our diagram ID using shape tags
-            lastShape.tags.add('mermaid_diagram_id', diagramId);
-            await context.sync();
-            debugLog += `✅ Shape tagged with diagram ID: ${diagramId}\n`;
-            shapeTagged = true;
-          } catch (tagError) {
-            debugLog += `⚠️ Shape tagging failed: ${tagError}\n`;
-            debugLog += `Will fall back to position-based matching\n`;
-            
-            // Load shape info as fallback
-            await context.sync();
-            const shapeInfo = `${lastShape.left},${lastShape.top},${lastShape.width},${lastShape.height}`;
-            debugLog += `Captured shape info as fallback: ${shapeInfo}\n`;
-          }
-        } else {
-          debugLog += 'No shapes found on slide!\n';
-        }
-      } else {
-        debugLog += 'No slides selected!\n';
+        debugLog += `✅ Shape tagged with diagram ID: ${diagramId}\n`;
+        shapeTagged = true;
+      } catch (tagError) {
+        debugLog += `⚠️ Shape tagging failed: ${tagError}\n`;
+        debugLog += `Will fall back to position-based matching\n`;
+        
+        shapeInfo = `${newShape.left},${newShape.top},${newShape.width},${newShape.height}`;
+        debugLog += `Captured shape info as fallback: ${shapeInfo}\n`;
       }
       
       // Store the diagram metadata
-      const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<MermaidDiagram>
-  <Id>${diagramId}</Id>
-  <Code><![CDATA[${mermaidCode}]]></Code>
-  <ShapeTagged>${shapeTagged}</ShapeTagged>
-  <CreatedAt>${new Date().toISOString()}</CreatedAt>
-</MermaidDiagram>`;
-      
-      debugLog += `About to add XML content (${xmlContent.length} chars)\n`;
-      customXmlParts.add(xmlContent);
-      await context.sync();
+      debugLog += `About to save diagram metadata (${mermaidCode.length} chars of code)\n`;
+      await saveDiagramRecord(context, customXmlParts, createDiagramRecord(diagramId, mermaidCode, {
+        imageFormat,
+        shapeTagged,
+        shapeInfo: shapeInfo || undefined,
+        placeholderBinding,
+        dataBinding
+      }));
       debugLog += `✅ XML part added successfully!\n`;
-      debugLog += `Final result: ID=${diagramId}, Tagged=${shapeTagged}\n`;
+      debugLog += `Final result: ID=${diagramId}, Tagged=${shapeTagged}, Format=${imageFormat}\n`;
       
       console.log(debugLog);
       return debugLog;
@@ -1110,86 +2364,41 @@ const storeDiagramDataAfterInsertion = async (diagramId: string, mermaidCode: st
 };
 
 // Retrieve diagram data from custom XML part
-const getDiagramData = async (diagramId: string): Promise<string | null> => {
+const getDiagramData = async (diagramId: string): Promise<DiagramRecord | null> => {
   return PowerPoint.run(async (context) => {
-    const presentation = context.presentation;
-    const customXmlParts = presentation.customXmlParts;
-    customXmlParts.load('items');
-    
-    await context.sync();
-    
-    for (let i = 0; i < customXmlParts.items.length; i++) {
-      const xmlPart = customXmlParts.items[i];
-      xmlPart.load(['xml']);
-      await context.sync();
-      
-      const xmlDoc = new DOMParser().parseFromString((xmlPart as any).xml, 'text/xml');
-      const idElement = xmlDoc.querySelector('Id');
-      
-      if (idElement && idElement.textContent === diagramId) {
-        const codeElement = xmlDoc.querySelector('Code');
-        return codeElement ? codeElement.textContent : null;
-      }
-    }
-    
-    return null;
+    return findDiagramRecord(context, context.presentation.customXmlParts, diagramId);
   });
 };
 
 // Update diagram data in custom XML part
-const updateDiagramData = async (diagramId: string, mermaidCode: string): Promise<void> => {
+const updateDiagramData = async (diagramId: string, mermaidCode: string, imageFormat: DiagramImageFormat, options: DiagramUpdateOptions = {}): Promise<void> => {
   return PowerPoint.run(async (context) => {
-    const presentation = context.presentation;
-    const customXmlParts = presentation.customXmlParts;
-    customXmlParts.load('items');
+    const customXmlParts = context.presentation.customXmlParts;
+    const existingRecord = await findDiagramRecord(context, customXmlParts, diagramId);
     
-    await context.sync();
-    
-    for (let i = 0; i < customXmlParts.items.length; i++) {
-      const xmlPart = customXmlParts.items[i];
-      
-      try {
-        const xmlContent = xmlPart.getXml();
-        await context.sync();
-        
-        if (xmlContent && xmlContent.value) {
-          const xmlDoc = new DOMParser().parseFromString(xmlContent.value, 'text/xml');
-          const idElement = xmlDoc.querySelector('Id');
-          
-          if (idElement && idElement.textContent === diagramId) {
-            // Update the XML part with new code and timestamp
-            const updatedXmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<MermaidDiagram>
-  <Id>${diagramId}</Id>
-  <Code><![CDATA[${mermaidCode}]]></Code>
-  <ShapeTagged>true</ShapeTagged>
-  <UpdatedAt>${new Date().toISOString()}</UpdatedAt>
-</MermaidDiagram>`;
-            
-            xmlPart.delete();
-            customXmlParts.add(updatedXmlContent);
-            await context.sync();
-            console.log('Diagram data updated for ID:', diagramId);
-            return;
-          }
-        }
-      } catch (error) {
-        continue;
-      }
+    if (!existingRecord) {
+      throw new Error('Diagram data not found for update');
     }
     
-    throw new Error('Diagram data not found for update');
+    // Update the record with new code and timestamp, keeping its creation time and history
+    await saveDiagramRecord(context, customXmlParts, {
+      ...withRevision(existingRecord, mermaidCode, options),
+      imageFormat,
+      shapeTagged: true
+    });
+    console.log('Diagram data updated for ID:', diagramId);
   });
 };
 
 
 // Download SVG file for manual insertion into PowerPoint
 export const downloadSvg = (svgContent: string, diagramId?: string): void => {
+  const safeSvg = sanitizeSvg(svgContent);
   try {
     const filename = `mermaid-diagram-${diagramId || Date.now()}.svg`;
     
     // Method 1: Try using data URL approach (more compatible)
-    const dataStr = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(svgContent);
+    const dataStr = "data:image/svg+xml;charset=utf-8," + encodeURIComponent(safeSvg);
     const link = document.createElement('a');
     link.setAttribute('href', dataStr);
     link.setAttribute('download', filename);
@@ -1214,10 +2423,10 @@ export const downloadSvg = (svgContent: string, diagramId?: string): void => {
             <body style="font-family: Arial; padding: 20px;">
               <h3>SVG Content (Right-click and Save As...)</h3>
               <p>Right-click the content below and select "Save As..." to save the SVG file:</p>
-              <textarea style="width: 100%; height: 400px; font-family: monospace;">${svgContent}</textarea>
+              <textarea style="width: 100%; height: 400px; font-family: monospace;">${safeSvg}</textarea>
               <hr>
               <div style="border: 1px solid #ccc; padding: 10px; margin: 10px 0;">
-                ${svgContent}
+                ${safeSvg}
               </div>
             </body>
           </html>
@@ -1317,25 +2526,32 @@ export const copyPngToClipboard = async (svgContent: string): Promise<void> => {
 };
 
 // Insert new mermaid diagram into PowerPoint slide
-export const insertDiagram = async (mermaidCode: string, svgContent: string): Promise<void> => {
+export const insertDiagram = async (mermaidCode: string, svgContent: string, options: DiagramInsertOptions = {}): Promise<void> => {
   if (!isOfficeContext) {
     console.log('Demo mode: Would insert diagram with code:', mermaidCode);
     return;
   }
   
   const diagramId = generateDiagramId();
-  console.log('Starting diagram insertion with ID:', diagramId);
+  const preferredFormat = options.format || 'svg';
+  console.log('Starting diagram insertion with ID:', diagramId, 'preferred format:', preferredFormat);
   
-  // Primary method: PowerPoint API PNG insertion
+  const placement = options.placement || 'natural';
+  
+  // Set once the image is on the slide - later failures must not fall back to inserting it again
+  let imageInserted = false;
+  
+  // Primary method: SVG (or PNG fallback) insertion via Office.context
   try {
-    console.log('Attempting PNG insertion via Office.context API...');
+    console.log(`Attempting ${preferredFormat.toUpperCase()} insertion via Office.context API...`);
     
-    const pngResult = await svgToPng(svgContent);
-    console.log('SVG to PNG conversion successful, dimensions:', pngResult.width, 'x', pngResult.height);
+    let insertedFormat: DiagramImageFormat = preferredFormat;
+    let insertionSnapshot: InsertionSnapshot = { slideId: '', previousShapeIds: [] };
+    let placeholderBinding: PlaceholderBinding | undefined;
     
     await PowerPoint.run(async (context) => {
       const slides = context.presentation.getSelectedSlides();
-      slides.load('items');
+      slides.load('items/id');
       await context.sync();
       
       if (slides.items.length === 0) {
@@ -1343,45 +2559,60 @@ export const insertDiagram = async (mermaidCode: string, svgContent: string): Pr
       }
       
       const slide = slides.items[0];
-      const shapes = slide.shapes;
+      const naturalSize = await measureSvg(svgContent);
+      
+      // An empty content placeholder takes precedence over the placement setting
+      const placeholder = await getSelectedEmptyPlaceholder(context);
+      let bounds: PlacementBounds;
+      if (placeholder) {
+        placeholderBinding = placeholder.binding;
+        bounds = fitWithin(naturalSize.width, naturalSize.height, placeholder.binding, true);
+        console.log(`Fitting diagram to selected ${placeholder.binding.placeholderType} placeholder:`, bounds);
+      } else {
+        // The slide master shows where the slide's content goes; the slide size and margin
+        // settings are only a fallback, since Office.js can't read the slide size itself
+        const contentArea = await getMasterContentArea(context, slide)
+          || marginContentArea(options.slideSize || 'widescreen', options.slideMargin ?? 36);
+        bounds = calculateSlidePlacement(
+          naturalSize.width,
+          naturalSize.height,
+          placement,
+          contentArea,
+          placement === 'selection' ? await getSelectedShapeBounds(context) : null
+        );
+        console.log(`Placement "${placement}":`, bounds);
+      }
       
-      // Use Office.context method for image insertion with correct aspect ratio
-      await new Promise<void>((resolve, reject) => {
-        if (typeof Office !== 'undefined' && Office.context && Office.context.document) {
-          Office.context.document.setSelectedDataAsync(
-            pngResult.base64,  // Just the base64 string, not the full data URL
-            { 
-              coercionType: Office.CoercionType.Image,
-              imageLeft: 50,
-              imageTop: 50,
-              imageWidth: pngResult.width,
-              imageHeight: pngResult.height
-            },
-            (result) => {
-              if (result.status === Office.AsyncResultStatus.Succeeded) {
-                console.log('PNG insertion via Office.context successful!');
-                resolve();
-              } else {
-                console.error('Office.context insertion failed:', result.error);
-                reject(new Error(`Office API insertion failed: ${result.error?.message || 'Unknown error'}`));
-              }
-            }
-          );
-        } else {
-          reject(new Error('Office context not available'));
-        }
-      });
+      if (placeholder) {
+        // The diagram takes the placeholder's place. Remove it before inserting, keeping only its
+        // bounds: with the placeholder still selected the host may fill it in place, and the new
+        // picture would keep the placeholder's ID.
+        placeholder.shape.delete();
+        await context.sync();
+        console.log('Removed the placeholder the diagram replaces');
+      }
       
-      // Note: Office.context.document.setSelectedDataAsync doesn't return a shape object
-      // We cannot directly tag the inserted image with this method
-      // The diagram ID will be stored in custom XML parts for retrieval
+      if (isShapeFillInsertionSupported() && (preferredFormat === 'png' || !isSvgInsertionSupported())) {
+        // The shapes API hands back the new shape directly - no need to look for it afterwards
+        const shape = await addDiagramShape(context, slide, svgContent, bounds);
+        insertedFormat = 'png';
+        insertionSnapshot = { slideId: slide.id, previousShapeIds: [], insertedShapeId: shape.id };
+      } else {
+        // setSelectedDataAsync doesn't return the shape it creates, so remember what was
+        // on the slide beforehand and identify the new shape by difference
+        insertionSnapshot = { slideId: slide.id, previousShapeIds: await snapshotShapeIds(context, slide) };
+        
+        // Use Office.context method for image insertion with correct aspect ratio
+        insertedFormat = await insertImageIntoSlide(svgContent, preferredFormat, bounds);
+      }
+      imageInserted = true;
       
-      console.log('PNG insertion via Office.context successful!');
+      console.log(`${insertedFormat.toUpperCase()} insertion via Office.context successful!`);
     });
     
-    // Store the diagram data for editing - do this after insertion so we can get accurate shape info
+    // Tag the new shape and store the diagram data for editing
     try {
-      const storageDebugLog = await storeDiagramDataAfterInsertion(diagramId, mermaidCode);
+      const storageDebugLog = await storeDiagramDataAfterInsertion(diagramId, mermaidCode, insertedFormat, insertionSnapshot, placeholderBinding, options.dataBinding);
       console.log('✅ Diagram data stored successfully');
       console.log('Storage debug log:', storageDebugLog);
     } catch (storageError) {
@@ -1394,6 +2625,10 @@ export const insertDiagram = async (mermaidCode: string, svgContent: string): Pr
   } catch (apiError) {
     console.error('PowerPoint API insertion failed:', apiError);
     
+    if (imageInserted) {
+      throw apiError;
+    }
+    
     // Fallback: Try Office.context method
     try {
       console.log('Trying Office.context insertion method...');
@@ -1427,7 +2662,7 @@ export const insertDiagram = async (mermaidCode: string, svgContent: string): Pr
       });
       
       // Store the diagram data
-      await storeDiagramData(diagramId, mermaidCode);
+      await storeDiagramData(diagramId, mermaidCode, 'png', options.dataBinding);
       console.log('Diagram inserted via Office.context and data stored');
       
     } catch (officeError) {
@@ -1666,139 +2901,354 @@ const getFullPopupHtml = (svgContent: string, diagramId: string): string => {
   `;
 };
 
-// Update existing mermaid diagram
-export const updateDiagram = async (diagramId: string, mermaidCode: string, svgContent: string): Promise<void> => {
+// A shape carrying a mermaid_diagram_id tag
+interface DiagramShape {
+  diagramId: string;
+  slide: PowerPoint.Slide;
+  slideIndex: number;
+  shape: PowerPoint.Shape;
+}
+
+// Walk every slide and collect the shapes tagged with a mermaid diagram ID
+const findDiagramShapes = async (context: PowerPoint.RequestContext): Promise<DiagramShape[]> => {
+  const slides = context.presentation.slides;
+  slides.load('items/id');
+  await context.sync();
+  
+  const diagramShapes: DiagramShape[] = [];
+  
+  for (let i = 0; i < slides.items.length; i++) {
+    const slide = slides.items[i];
+    const shapes = slide.shapes;
+    shapes.load('items/id');
+    await context.sync();
+    
+    // Load the tags of every shape on the slide in one round trip
+    const readableShapes: PowerPoint.Shape[] = [];
+    try {
+      shapes.items.forEach(shape => shape.tags.load('items/key,items/value'));
+      await context.sync();
+      readableShapes.push(...shapes.items);
+    } catch (batchError) {
+      // Some shape types don't support tags - fall back to reading them one at a time
+      for (const shape of shapes.items) {
+        try {
+          shape.tags.load('items/key,items/value');
+          await context.sync();
+          readableShapes.push(shape);
+        } catch (tagError) {
+          console.log('Error reading shape tags:', tagError);
+        }
+      }
+    }
+    
+    readableShapes.forEach(shape => {
+      const diagramTag = shape.tags.items.find(tag => tag.key.toLowerCase() === 'mermaid_diagram_id');
+      if (diagramTag) {
+        diagramShapes.push({ diagramId: diagramTag.value, slide, slideIndex: i, shape });
+      }
+    });
+  }
+  
+  return diagramShapes;
+};
+
+// Picture-filled shapes can have their image swapped without touching the shape itself.
+// Images placed through setSelectedDataAsync are "Image" shapes, which have no fill to replace.
+// A fill can only hold a PNG, so diagrams stored as SVG are replaced to stay SVG.
+const canReplaceFillInPlace = (shape: PowerPoint.Shape, storedFormat: DiagramImageFormat): boolean => {
+  return Office.context.requirements.isSetSupported('PowerPointApi', '1.8') && shape.type !== PowerPoint.ShapeType.image && storedFormat === 'png';
+};
+
+// Replace an image shape with a newly inserted one at the given bounds, carrying over
+// what the API exposes: name, tags, rotation and z-order. Animations attached to the old shape are lost.
+const replaceDiagramShape = async (
+  context: PowerPoint.RequestContext,
+  diagramShape: DiagramShape,
+  svgContent: string,
+  preferredFormat: DiagramImageFormat,
+  bounds: PlacementBounds
+): Promise<DiagramImageFormat> => {
+  const { slide, shape: oldShape } = diagramShape;
+  const canRestoreZOrder = Office.context.requirements.isSetSupported('PowerPointApi', '1.8');
+  const canRestoreRotation = Office.context.requirements.isSetSupported('PowerPointApi', '1.10');
+  
+  if (canRestoreZOrder) {
+    oldShape.load('zOrderPosition');
+  }
+  if (canRestoreRotation) {
+    oldShape.load('rotation');
+  }
+  
+  // setSelectedDataAsync inserts into the selected slide, which may not be the diagram's slide
+  context.presentation.setSelectedSlides([slide.id]);
+  slide.shapes.load('items/id');
+  await context.sync();
+  const previousShapeIds = slide.shapes.items.map(shape => shape.id);
+  const oldZOrderPosition = canRestoreZOrder ? oldShape.zOrderPosition : -1;
+  
+  let insertedFormat: DiagramImageFormat;
+  try {
+    insertedFormat = await insertImageIntoSlide(svgContent, preferredFormat, bounds);
+    console.log('Replacement image inserted as', insertedFormat);
+  } catch (insertError) {
+    throw new Error(`Failed to insert updated image: ${insertError instanceof Error ? insertError.message : String(insertError)}`);
+  }
+  
+  let newShape: PowerPoint.Shape;
+  try {
+    newShape = await waitForNewShape(context, slide, previousShapeIds);
+  } catch (identifyError) {
+    throw new Error(`${identifyError instanceof Error ? identifyError.message : String(identifyError)} - the original diagram was left unchanged`);
+  }
+  
+  newShape.name = oldShape.name;
+  if (canRestoreRotation) {
+    // The new shape has the same unrotated frame, so rotating it about its centre puts it where the old one was
+    newShape.rotation = oldShape.rotation;
+  }
+  oldShape.tags.items.forEach(tag => newShape.tags.add(tag.key, tag.value));
+  oldShape.delete();
+  await context.sync();
+  console.log('Old shape replaced by new shape:', newShape.id);
+  
+  if (canRestoreZOrder) {
+    // New shapes land on top of the stack - step back down to where the old shape was
+    newShape.load('zOrderPosition');
+    await context.sync();
+    
+    for (let position = newShape.zOrderPosition; position > oldZOrderPosition; position--) {
+      newShape.setZOrder(PowerPoint.ShapeZOrder.sendBackward);
+    }
+    await context.sync();
+    console.log('Restored z-order position:', oldZOrderPosition);
+  }
+  
+  return insertedFormat;
+};
+
+// Update existing mermaid diagram
+export const updateDiagram = async (diagramId: string, mermaidCode: string, svgContent: string, options: DiagramUpdateOptions = {}): Promise<void> => {
+  if (!isOfficeContext) {
+    console.log('Demo mode: Would update diagram', diagramId, 'with code:', mermaidCode);
+    return;
+  }
+  
+  console.log('Starting diagram update for ID:', diagramId);
+  
+  // Re-insert in the same format the diagram was originally placed with
+  const storedRecord = await getDiagramData(diagramId);
+  const storedFormat: DiagramImageFormat = storedRecord ? storedRecord.imageFormat : 'png';
+  console.log('Stored image format for diagram:', storedFormat);
+  
+  return PowerPoint.run(async (context) => {
+    const diagramShape = (await findDiagramShapes(context)).find(candidate => candidate.diagramId === diagramId);
+    
+    if (!diagramShape) {
+      throw new Error('Diagram shape not found - no shape with matching mermaid_diagram_id tag');
+    }
+    
+    const targetShape = diagramShape.shape;
+    targetShape.load(['type', 'name', 'left', 'top', 'width', 'height']);
+    await context.sync();
+    console.log(`Updating ${targetShape.type} shape on slide ${diagramShape.slideIndex + 1} at ${targetShape.left},${targetShape.top} size: ${targetShape.width}x${targetShape.height}`);
+    
+    // The new diagram's aspect ratio may differ from the old one. Diagrams that replaced a
+    // placeholder are re-fitted to it; others are reshaped around the current shape's centre.
+    const currentBounds: PlacementBounds = {
+      left: targetShape.left,
+      top: targetShape.top,
+      width: targetShape.width,
+      height: targetShape.height
+    };
+    const naturalSize = await measureSvg(svgContent);
+    const placeholderBinding = storedRecord?.placeholderBinding;
+    let bounds: PlacementBounds;
+    if (placeholderBinding) {
+      bounds = fitWithin(naturalSize.width, naturalSize.height, placeholderBinding, true);
+      console.log(`Re-fitting diagram to its ${placeholderBinding.placeholderType} placeholder:`, bounds);
+    } else {
+      bounds = resizeToAspect(currentBounds, naturalSize.width, naturalSize.height);
+      console.log('Reshaping diagram to its new aspect ratio:', bounds);
+    }
+    
+    let insertedFormat: DiagramImageFormat;
+    if (canReplaceFillInPlace(targetShape, storedFormat)) {
+      // Shape identity, z-order, rotation, grouping and animations are untouched
+      const pngResult = await svgToPng(svgContent);
+      targetShape.fill.setImage(pngResult.base64);
+      targetShape.left = bounds.left;
+      targetShape.top = bounds.top;
+      targetShape.width = bounds.width;
+      targetShape.height = bounds.height;
+      await context.sync();
+      insertedFormat = 'png';
+      console.log('Diagram picture fill replaced in place');
+    } else {
+      insertedFormat = await replaceDiagramShape(context, diagramShape, svgContent, storedFormat, bounds);
+    }
+    
+    // Update stored diagram data
+    await updateDiagramData(diagramId, mermaidCode, insertedFormat, options);
+    console.log('Diagram data updated in storage');
+  });
+};
+
+// Get the revision history of a diagram, oldest first
+export const getDiagramHistory = async (diagramId: string): Promise<DiagramRevision[]> => {
+  if (!isOfficeContext) {
+    return [];
+  }
+  
+  const record = await getDiagramData(diagramId);
+  return record ? record.revisions : [];
+};
+
+// Cross-reference where diagrams appear against the stored records
+const buildRepairReport = (
+  records: DiagramRecord[],
+  placements: { diagramId: string, location: string }[],
+  everyShapeTagged: boolean
+): DiagramRepairReport => {
+  const recordIds = new Set(records.map(record => record.id));
+  const locationsById = new Map<string, string[]>();
+  placements.forEach(placement => {
+    locationsById.set(placement.diagramId, [...(locationsById.get(placement.diagramId) || []), placement.location]);
+  });
+  const summary = (record: DiagramRecord) => ({ id: record.id, diagramType: detectDiagramType(record.code), createdAt: record.createdAt });
+  
+  return {
+    orphanedRecords: findOrphanedRecords(records, Array.from(locationsById.keys()), everyShapeTagged).map(summary),
+    unverifiableRecords: records
+      .filter(record => !everyShapeTagged && !record.shapeTagged && !locationsById.has(record.id))
+      .map(summary),
+    danglingShapes: placements.filter(placement => !recordIds.has(placement.diagramId)),
+    duplicatedIds: Array.from(locationsById.entries())
+      .filter(([, locations]) => locations.length > 1)
+      .map(([diagramId, locations]) => ({ diagramId, locations }))
+  };
+};
+
+// Build the inventory of diagrams in the presentation, in slide order
+export const listDiagramInventory = async (): Promise<DiagramInventoryItem[]> => {
+  if (!isOfficeContext) {
+    return [];
+  }
+  
+  return PowerPoint.run(async (context) => {
+    const records = await loadDiagramRecords(context, context.presentation.customXmlParts);
+    const diagramShapes = await findDiagramShapes(context);
+    
+    return records.map(record => {
+      const shapes = diagramShapes.filter(diagramShape => diagramShape.diagramId === record.id);
+      return {
+        id: record.id,
+        code: record.code,
+        diagramType: detectDiagramType(record.code),
+        createdAt: record.createdAt,
+        updatedAt: record.updatedAt,
+        location: shapes.length > 0
+          ? shapes.map(diagramShape => `Slide ${diagramShape.slideIndex + 1}`).join(', ')
+          : 'Not found on any slide',
+        onCanvas: shapes.length > 0,
+        dataBinding: record.dataBinding,
+        sortKey: shapes.length > 0 ? shapes[0].slideIndex : Number.MAX_SAFE_INTEGER
+      };
+    })
+      .sort((a, b) => a.sortKey - b.sortKey)
+      .map(({ sortKey, ...item }) => item);
+  });
+};
+
+// Go to the slide holding a diagram and select its shape
+export const selectDiagramShape = async (diagramId: string): Promise<void> => {
+  if (!isOfficeContext) {
+    return;
+  }
+  
+  return PowerPoint.run(async (context) => {
+    const diagramShape = (await findDiagramShapes(context)).find(candidate => candidate.diagramId === diagramId);
+    
+    if (!diagramShape) {
+      throw new Error(`Diagram ${diagramId} was not found on any slide`);
+    }
+    
+    context.presentation.setSelectedSlides([diagramShape.slide.id]);
+    diagramShape.slide.setSelectedShapes([diagramShape.shape.id]);
+    await context.sync();
+  });
+};
+
+// Delete a diagram's shapes and its stored metadata
+export const deleteDiagram = async (diagramId: string): Promise<void> => {
+  if (!isOfficeContext) {
+    console.log('Demo mode: Would delete diagram', diagramId);
+    return;
+  }
+  
+  return PowerPoint.run(async (context) => {
+    const diagramShapes = (await findDiagramShapes(context)).filter(candidate => candidate.diagramId === diagramId);
+    diagramShapes.forEach(diagramShape => diagramShape.shape.delete());
+    await context.sync();
+    
+    await deleteDiagramRecord(context, context.presentation.customXmlParts, diagramId);
+    console.log(`Deleted ${diagramShapes.length} shape(s) and metadata for diagram:`, diagramId);
+  });
+};
+
+// Report orphaned metadata, dangling shapes and duplicated IDs in the presentation
+export const checkDiagramIntegrity = async (): Promise<DiagramRepairReport> => {
+  if (!isOfficeContext) {
+    return { orphanedRecords: [], unverifiableRecords: [], danglingShapes: [], duplicatedIds: [] };
+  }
+  
+  return PowerPoint.run(async (context) => {
+    const records = await loadDiagramRecords(context, context.presentation.customXmlParts);
+    const diagramShapes = await findDiagramShapes(context);
+    
+    return buildRepairReport(records, diagramShapes.map(diagramShape => ({
+      diagramId: diagramShape.diagramId,
+      location: `Slide ${diagramShape.slideIndex + 1}`
+    })), false);
+  });
+};
+
+// Purge metadata of deleted diagrams and give copy-pasted shapes their own diagram ID
+export const repairDiagrams = async (options: DiagramRepairOptions): Promise<DiagramRepairResult> => {
   if (!isOfficeContext) {
-    console.log('Demo mode: Would update diagram', diagramId, 'with code:', mermaidCode);
-    return;
+    console.log('Demo mode: Would repair diagrams with options', options);
+    return { purgedCount: 0, forkedCount: 0 };
   }
   
-  console.log('Starting diagram update for ID:', diagramId);
-  const pngResult = await svgToPng(svgContent);
+  console.log('Repairing diagrams with options:', options);
   
   return PowerPoint.run(async (context) => {
-    const slides = context.presentation.slides;
-    slides.load('items');
-    await context.sync();
-    
-    // Find the shape with the matching mermaid diagram tag
-    let targetShape = null;
-    let targetLeft = 50;
-    let targetTop = 50;
-    let targetWidth = 600;
-    let targetHeight = 450;
-    
-    for (let i = 0; i < slides.items.length; i++) {
-      const slide = slides.items[i];
-      const shapes = slide.shapes;
-      shapes.load('items');
-      await context.sync();
-      
-      for (let j = 0; j < shapes.items.length; j++) {
-        const shape = shapes.items[j];
-        
-        // Check if this shape has our mermaid diagram tag
-        try {
-          shape.tags.load('items');
-          await context.sync();
-          
-          for (let k = 0; k < shape.tags.items.length; k++) {
-            const tag = shape.tags.items[k];
-            tag.load(['key', 'value']);
-            await context.sync();
-            
-            if (tag.key.toLowerCase() === 'mermaid_diagram_id' && tag.value === diagramId) {
-              console.log('Found diagram shape to update via tag:', diagramId);
-              targetShape = shape;
-              
-              // Get current position and size to maintain them
-              shape.load(['left', 'top', 'width', 'height']);
-              await context.sync();
-              
-              targetLeft = shape.left;
-              targetTop = shape.top;
-              targetWidth = shape.width;
-              targetHeight = shape.height;
-              
-              console.log(`Preserving position: ${targetLeft},${targetTop} size: ${targetWidth}x${targetHeight}`);
-              break;
-            }
-          }
-          
-          if (targetShape) break;
-        } catch (tagError) {
-          console.log('Error reading shape tags:', tagError);
-          continue;
-        }
-      }
-      
-      if (targetShape) break;
-    }
-    
-    if (!targetShape) {
-      throw new Error('Diagram shape not found - no shape with matching mermaid_diagram_id tag');
+    const customXmlParts = context.presentation.customXmlParts;
+    const records = await loadDiagramRecords(context, customXmlParts);
+    const diagramShapes = await findDiagramShapes(context);
+    const result: DiagramRepairResult = { purgedCount: 0, forkedCount: 0 };
+    
+    if (options.purgeOrphans) {
+      const orphanedIds = findOrphanedRecords(records, diagramShapes.map(diagramShape => diagramShape.diagramId), false).map(record => record.id);
+      result.purgedCount = await deleteDiagramRecords(context, customXmlParts, orphanedIds);
     }
     
-    // Delete the old shape
-    targetShape.delete();
-    await context.sync();
-    console.log('Old shape deleted');
-    
-    // Insert new image at the same position using Office.context
-    await new Promise<void>((resolve, reject) => {
-      if (typeof Office !== 'undefined' && Office.context && Office.context.document) {
-        Office.context.document.setSelectedDataAsync(
-          pngResult.base64,
-          { 
-            coercionType: Office.CoercionType.Image,
-            imageLeft: targetLeft,
-            imageTop: targetTop,
-            imageWidth: targetWidth,
-            imageHeight: targetHeight
-          },
-          (result) => {
-            if (result.status === Office.AsyncResultStatus.Succeeded) {
-              console.log('New diagram inserted successfully at preserved position');
-              resolve();
-            } else {
-              reject(new Error(`Failed to insert updated image: ${result.error?.message}`));
-            }
-          }
-        );
-      } else {
-        reject(new Error('Office context not available'));
-      }
-    });
-    
-    // Wait a moment for insertion to complete, then re-tag the new shape
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    try {
-      // Get the most recently added shape (should be our new image) and tag it
-      const slides = context.presentation.getSelectedSlides();
-      slides.load('items');
-      await context.sync();
-      
-      if (slides.items.length > 0) {
-        const slide = slides.items[0];
-        const shapes = slide.shapes;
-        shapes.load('items');
-        await context.sync();
-        
-        if (shapes.items.length > 0) {
-          const newShape = shapes.items[shapes.items.length - 1];
-          newShape.tags.add('mermaid_diagram_id', diagramId);
+    if (options.forkDuplicates) {
+      for (const record of records) {
+        // The first shape in slide order keeps the original ID, every copy gets its own
+        const copies = diagramShapes.filter(diagramShape => diagramShape.diagramId === record.id).slice(1);
+        for (const copy of copies) {
+          const newId = generateDiagramId();
+          copy.shape.tags.add('mermaid_diagram_id', newId);
           await context.sync();
-          console.log('New shape re-tagged with diagram ID');
+          await saveDiagramRecord(context, customXmlParts, forkDiagramRecord(record, newId));
+          result.forkedCount++;
         }
       }
-    } catch (retagError) {
-      console.warn('Failed to re-tag new shape:', retagError);
     }
     
-    // Update stored diagram data
-    await updateDiagramData(diagramId, mermaidCode);
-    console.log('Diagram data updated in storage');
+    console.log('Repair finished:', result);
+    return result;
   });
 };
 
@@ -1809,74 +3259,29 @@ export const listAllStoredDiagrams = async (): Promise<string> => {
   }
   
   return PowerPoint.run(async (context) => {
-    const presentation = context.presentation;
-    const customXmlParts = presentation.customXmlParts;
-    customXmlParts.load('items');
-    await context.sync();
+    const customXmlParts = context.presentation.customXmlParts;
+    const records = await loadDiagramRecords(context, customXmlParts);
     
     let debugOutput = '=== STORED DIAGRAMS DEBUG ===\n';
     debugOutput += `Total XML parts found: ${customXmlParts.items.length}\n\n`;
     
-    let mermaidDiagramCount = 0;
-    
-    for (let i = 0; i < customXmlParts.items.length; i++) {
-      const xmlPart = customXmlParts.items[i];
-      
-      try {
-        // Use getXml() method to retrieve the XML content
-        const xmlContent = xmlPart.getXml();
-        await context.sync();
-        
-        debugOutput += `XML Part ${i + 1}: `;
-        
-        if (xmlContent && xmlContent.value && typeof xmlContent.value === 'string') {
-          const xmlString = xmlContent.value;
-          debugOutput += `${xmlString.substring(0, 100)}...\n`;
-          
-          const xmlDoc = new DOMParser().parseFromString(xmlString, 'text/xml');
-          
-          // Check for parsing errors
-          const parserError = xmlDoc.querySelector('parsererror');
-          if (parserError) {
-            debugOutput += `  Parser error: ${parserError.textContent}\n`;
-            continue;
-          }
-          
-          // Look for MermaidDiagram root element
-          const mermaidRoot = xmlDoc.querySelector('MermaidDiagram');
-          if (mermaidRoot) {
-            const idElement = xmlDoc.querySelector('Id');
-            const codeElement = xmlDoc.querySelector('Code');
-            const shapeInfoElement = xmlDoc.querySelector('ShapeInfo');
-            const createdAtElement = xmlDoc.querySelector('CreatedAt');
-            
-            mermaidDiagramCount++;
-            debugOutput += `✅ Mermaid Diagram ${mermaidDiagramCount} found:\n`;
-            debugOutput += `  ID: ${idElement?.textContent || 'MISSING'}\n`;
-            debugOutput += `  Code length: ${codeElement?.textContent?.length || 0} chars\n`;
-            debugOutput += `  Shape info: ${shapeInfoElement?.textContent || 'MISSING'}\n`;
-            debugOutput += `  Created: ${createdAtElement?.textContent || 'Unknown'}\n`;
-            debugOutput += `  ---\n`;
-          } else if (xmlString.includes('MermaidDiagram') || xmlString.includes('mermaid')) {
-            debugOutput += `  Contains 'MermaidDiagram' but not parsed correctly\n`;
-            debugOutput += `  Root element: ${xmlDoc.documentElement?.tagName || 'NONE'}\n`;
-          }
-        } else {
-          debugOutput += `No XML content found (value: ${xmlContent?.value})\n`;
-        }
-      } catch (error) {
-        debugOutput += `XML part ${i + 1}: Parse error - ${error}\n`;
-      }
-    }
+    records.forEach((record, index) => {
+      debugOutput += `✅ Mermaid Diagram ${index + 1} found:\n`;
+      debugOutput += `  ID: ${record.id}\n`;
+      debugOutput += `  Code length: ${record.code.length} chars\n`;
+      debugOutput += `  Image format: ${record.imageFormat}\n`;
+      debugOutput += `  Shape tagged: ${record.shapeTagged}\n`;
+      debugOutput += `  Shape info: ${record.shapeInfo || 'NONE'}\n`;
+      debugOutput += `  Created: ${record.createdAt}\n`;
+      debugOutput += `  Updated: ${record.updatedAt || 'Never'}\n`;
+      debugOutput += `  Revisions: ${record.revisions.length}\n`;
+      debugOutput += `  ---\n`;
+    });
     
-    if (mermaidDiagramCount === 0) {
+    if (records.length === 0) {
       debugOutput += '\n❌ No mermaid diagrams found in storage!\n';
-      debugOutput += 'Possible issues:\n';
-      debugOutput += '1. XML format is incorrect\n';
-      debugOutput += '2. XML parsing is failing\n';
-      debugOutput += '3. Root element name is wrong\n';
     } else {
-      debugOutput += `\n✅ Found ${mermaidDiagramCount} mermaid diagrams total!\n`;
+      debugOutput += `\n✅ Found ${records.length} mermaid diagrams total!\n`;
     }
     
     debugOutput += '=== END STORED DIAGRAMS ===';
@@ -2096,34 +3501,15 @@ export const getSelectedDiagram = async (): Promise<DiagramData | null> => {
     
     // If we found a diagram ID via tag, look up the code
     if (diagramId) {
-      const presentation = context.presentation;
-      const customXmlParts = presentation.customXmlParts;
-      customXmlParts.load('items');
-      await context.sync();
+      const record = await findDiagramRecord(context, context.presentation.customXmlParts, diagramId);
       
-      for (let i = 0; i < customXmlParts.items.length; i++) {
-        const xmlPart = customXmlParts.items[i];
-        
-        try {
-          const xmlContent = xmlPart.getXml();
-          await context.sync();
-          
-          if (xmlContent && xmlContent.value) {
-            const xmlDoc = new DOMParser().parseFromString(xmlContent.value, 'text/xml');
-            const idElement = xmlDoc.querySelector('Id');
-            const codeElement = xmlDoc.querySelector('Code');
-            
-            if (idElement && codeElement && idElement.textContent === diagramId) {
-              console.log('Found matching diagram via tag:', diagramId);
-              return {
-                id: diagramId,
-                code: codeElement.textContent || ''
-              };
-            }
-          }
-        } catch (error) {
-          continue;
-        }
+      if (record) {
+        console.log('Found matching diagram via tag:', diagramId);
+        return {
+          id: record.id,
+          code: record.code,
+          dataBinding: record.dataBinding
+        };
       }
     }
     
@@ -2174,8 +3560,9 @@ export const testDiagramStorage = async (): Promise<string> => {
   const testCode = 'graph TD\n  A[Test] --> B[Storage]';
   
   try {
-    const debugLog = await storeDiagramDataAfterInsertion(testId, testCode);
-    return `TEST STORAGE RESULT:\n${debugLog}\n\nNow check "List Stored" to see if it appears!`;
+    // Metadata only - nothing is inserted, so there is no new shape to tag
+    await storeDiagramData(testId, testCode, 'png');
+    return `TEST STORAGE RESULT:\nStored test diagram ${testId}\n\nNow check "List Stored" to see if it appears!`;
   } catch (error) {
     return `TEST STORAGE FAILED:\n${error}`;
   }
@@ -2228,6 +3615,89 @@ const shapesApproximatelyMatch = (info1: string, info2: string): boolean => {
   return true;
 };
 
+// Settings XML shared by PowerPoint and Word
+const serializeSettings = (settings: MermaidSettings): string => {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<MermaidSettings>
+  <FontFamily><![CDATA[${settings.fontFamily}]]></FontFamily>
+  <FontSize>${settings.fontSize}</FontSize>
+  <PrimaryColor>${settings.primaryColor}</PrimaryColor>
+  <PrimaryTextColor>${settings.primaryTextColor}</PrimaryTextColor>
+  <PrimaryBorderColor>${settings.primaryBorderColor}</PrimaryBorderColor>
+  <LineColor>${settings.lineColor}</LineColor>
+  <BackgroundColor>${settings.backgroundColor}</BackgroundColor>
+  <SecondaryColor>${settings.secondaryColor}</SecondaryColor>
+  <TertiaryColor>${settings.tertiaryColor}</TertiaryColor>
+  <Theme>${settings.theme}</Theme>
+  <InsertionFormat>${settings.insertionFormat}</InsertionFormat>
+  <Placement>${settings.placement}</Placement>
+  <SlideSize>${settings.slideSize}</SlideSize>
+  <SlideMargin>${settings.slideMargin}</SlideMargin>
+  <WordMaxWidthPercent>${settings.wordMaxWidthPercent}</WordMaxWidthPercent>
+  <WordMaxHeightPercent>${settings.wordMaxHeightPercent}</WordMaxHeightPercent>
+  <WordTextWrap>${settings.wordTextWrap}</WordTextWrap>
+  <WordAnchorPosition>${settings.wordAnchorPosition}</WordAnchorPosition>
+  <WordCaptions>${settings.wordCaptions}</WordCaptions>
+  <LivePreview>${settings.livePreview}</LivePreview>
+  <SecurityLevel>${settings.securityLevel}</SecurityLevel>
+  <UpdatedAt>${new Date().toISOString()}</UpdatedAt>
+</MermaidSettings>`;
+};
+
+// Parse a <MermaidSettings> part. Missing values fall back to the defaults so older documents keep loading.
+const parseSettingsXml = (xml: string): MermaidSettings | null => {
+  if (!xml.includes('<MermaidSettings>')) {
+    return null;
+  }
+  
+  const xmlDoc = new DOMParser().parseFromString(xml, 'text/xml');
+  
+  // Check for parsing errors
+  const parserError = xmlDoc.querySelector('parsererror');
+  if (parserError) {
+    console.log('Settings XML parse error:', parserError.textContent);
+    return null;
+  }
+  
+  const text = (tagName: string): string | null => xmlDoc.querySelector(tagName)?.textContent || null;
+  
+  if (!text('FontFamily') || !text('FontSize') || !text('PrimaryColor')) {
+    return null;
+  }
+  
+  const slideMargin = parseInt(text('SlideMargin') || '');
+  const wordMaxWidthPercent = parseInt(text('WordMaxWidthPercent') || '');
+  const wordMaxHeightPercent = parseInt(text('WordMaxHeightPercent') || '');
+  const securityLevel = text('SecurityLevel');
+  
+  return {
+    fontFamily: text('FontFamily') || defaultSettings.fontFamily,
+    fontSize: parseInt(text('FontSize') || '16') || defaultSettings.fontSize,
+    primaryColor: text('PrimaryColor') || defaultSettings.primaryColor,
+    primaryTextColor: text('PrimaryTextColor') || defaultSettings.primaryTextColor,
+    primaryBorderColor: text('PrimaryBorderColor') || defaultSettings.primaryBorderColor,
+    lineColor: text('LineColor') || defaultSettings.lineColor,
+    backgroundColor: text('BackgroundColor') || defaultSettings.backgroundColor,
+    secondaryColor: text('SecondaryColor') || defaultSettings.secondaryColor,
+    tertiaryColor: text('TertiaryColor') || defaultSettings.tertiaryColor,
+    theme: (text('Theme') as MermaidSettings['theme']) || defaultSettings.theme,
+    insertionFormat: (text('InsertionFormat') as DiagramImageFormat) || defaultSettings.insertionFormat,
+    placement: (text('Placement') as DiagramPlacement) || defaultSettings.placement,
+    slideSize: (text('SlideSize') as SlideSize) || defaultSettings.slideSize,
+    slideMargin: isNaN(slideMargin) ? defaultSettings.slideMargin : slideMargin,
+    wordMaxWidthPercent: wordMaxWidthPercent > 0 ? wordMaxWidthPercent : defaultSettings.wordMaxWidthPercent,
+    wordMaxHeightPercent: wordMaxHeightPercent > 0 ? wordMaxHeightPercent : defaultSettings.wordMaxHeightPercent,
+    wordTextWrap: (text('WordTextWrap') as WordTextWrap) || defaultSettings.wordTextWrap,
+    wordAnchorPosition: (text('WordAnchorPosition') as WordAnchorPosition) || defaultSettings.wordAnchorPosition,
+    wordCaptions: text('WordCaptions') === 'true',
+    livePreview: text('LivePreview') === 'true',
+    securityLevel: isSecurityLevel(securityLevel) ? securityLevel : defaultSettings.securityLevel
+  };
+};
+
+// Outlook roaming settings entry holding the same XML as the custom XML parts
+const OUTLOOK_SETTINGS_KEY = 'mermaidSettings';
+
 // Save settings to Custom XML Parts (platform-agnostic)
 export const saveSettings = async (settings: MermaidSettings): Promise<void> => {
   if (!isOfficeContext) {
@@ -2266,21 +3736,7 @@ export const saveSettings = async (settings: MermaidSettings): Promise<void> =>
     
     await context.sync();
     
-    // Create new settings XML
-    const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<MermaidSettings>
-  <FontFamily><![CDATA[${settings.fontFamily}]]></FontFamily>
-  <FontSize>${settings.fontSize}</FontSize>
-  <PrimaryColor>${settings.primaryColor}</PrimaryColor>
-  <PrimaryTextColor>${settings.primaryTextColor}</PrimaryTextColor>
-  <PrimaryBorderColor>${settings.primaryBorderColor}</PrimaryBorderColor>
-  <LineColor>${settings.lineColor}</LineColor>
-  <BackgroundColor>${settings.backgroundColor}</BackgroundColor>
-  <SecondaryColor>${settings.secondaryColor}</SecondaryColor>
-  <TertiaryColor>${settings.tertiaryColor}</TertiaryColor>
-  <Theme>${settings.theme}</Theme>
-  <UpdatedAt>${new Date().toISOString()}</UpdatedAt>
-</MermaidSettings>`;
+    const xmlContent = serializeSettings(settings);
 
     customXmlParts.add(xmlContent);
     await context.sync();
@@ -2313,26 +3769,49 @@ export const saveSettings = async (settings: MermaidSettings): Promise<void> =>
       
       await context.sync();
       
-      // Create new settings XML (same format as PowerPoint)
-      const xmlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<MermaidSettings>
-  <FontFamily><![CDATA[${settings.fontFamily}]]></FontFamily>
-  <FontSize>${settings.fontSize}</FontSize>
-  <PrimaryColor>${settings.primaryColor}</PrimaryColor>
-  <PrimaryTextColor>${settings.primaryTextColor}</PrimaryTextColor>
-  <PrimaryBorderColor>${settings.primaryBorderColor}</PrimaryBorderColor>
-  <LineColor>${settings.lineColor}</LineColor>
-  <BackgroundColor>${settings.backgroundColor}</BackgroundColor>
-  <SecondaryColor>${settings.secondaryColor}</SecondaryColor>
-  <TertiaryColor>${settings.tertiaryColor}</TertiaryColor>
-  <Theme>${settings.theme}</Theme>
-  <UpdatedAt>${new Date().toISOString()}</UpdatedAt>
-</MermaidSettings>`;
+      // Same format as PowerPoint
+      const xmlContent = serializeSettings(settings);
 
       customXmlParts.add(xmlContent);
       await context.sync();
       console.log('Settings saved successfully in Word');
     });
+  } else if (platform === OfficePlatform.Excel) {
+    return Excel.run(async (context) => {
+      const customXmlParts = context.workbook.customXmlParts;
+      
+      // First, remove any existing settings XML parts
+      customXmlParts.load('items');
+      await context.sync();
+      
+      for (let i = customXmlParts.items.length - 1; i >= 0; i--) {
+        const xmlPart = customXmlParts.items[i];
+        try {
+          const xmlContent = xmlPart.getXml();
+          await context.sync();
+          
+          if (xmlContent && xmlContent.value && xmlContent.value.includes('<MermaidSettings>')) {
+            xmlPart.delete();
+            console.log('Removed existing settings XML part');
+          }
+        } catch (error) {
+          // Ignore errors when checking individual parts
+          continue;
+        }
+      }
+      
+      await context.sync();
+      
+      customXmlParts.add(serializeSettings(settings));
+      await context.sync();
+      console.log('Settings saved successfully in Excel');
+    });
+  } else if (platform === OfficePlatform.Outlook) {
+    // Messages have no custom XML parts, so settings roam with the mailbox instead
+    const roamingSettings = Office.context.roamingSettings;
+    roamingSettings.set(OUTLOOK_SETTINGS_KEY, serializeSettings(settings));
+    await officeAsync<void>(callback => roamingSettings.saveAsync(callback));
+    console.log('Settings saved successfully in Outlook');
   } else {
     throw new Error(`Unsupported platform for settings: ${platform}`);
   }
@@ -2363,45 +3842,10 @@ export const loadSettings = async (): Promise<MermaidSettings> => {
         const xmlContent = xmlPart.getXml();
         await context.sync();
         
-        if (xmlContent && xmlContent.value && xmlContent.value.includes('<MermaidSettings>')) {
-          const xmlDoc = new DOMParser().parseFromString(xmlContent.value, 'text/xml');
-          
-          // Check for parsing errors
-          const parserError = xmlDoc.querySelector('parsererror');
-          if (parserError) {
-            console.log('Settings XML parse error:', parserError.textContent);
-            continue;
-          }
-          
-          // Extract settings values
-          const fontFamilyElement = xmlDoc.querySelector('FontFamily');
-          const fontSizeElement = xmlDoc.querySelector('FontSize');
-          const primaryColorElement = xmlDoc.querySelector('PrimaryColor');
-          const primaryTextColorElement = xmlDoc.querySelector('PrimaryTextColor');
-          const primaryBorderColorElement = xmlDoc.querySelector('PrimaryBorderColor');
-          const lineColorElement = xmlDoc.querySelector('LineColor');
-          const backgroundColorElement = xmlDoc.querySelector('BackgroundColor');
-          const secondaryColorElement = xmlDoc.querySelector('SecondaryColor');
-          const tertiaryColorElement = xmlDoc.querySelector('TertiaryColor');
-          const themeElement = xmlDoc.querySelector('Theme');
-          
-          if (fontFamilyElement && fontSizeElement && primaryColorElement) {
-            const loadedSettings: MermaidSettings = {
-              fontFamily: fontFamilyElement.textContent || defaultSettings.fontFamily,
-              fontSize: parseInt(fontSizeElement.textContent || '16') || defaultSettings.fontSize,
-              primaryColor: primaryColorElement.textContent || defaultSettings.primaryColor,
-              primaryTextColor: primaryTextColorElement?.textContent || defaultSettings.primaryTextColor,
-              primaryBorderColor: primaryBorderColorElement?.textContent || defaultSettings.primaryBorderColor,
-              lineColor: lineColorElement?.textContent || defaultSettings.lineColor,
-              backgroundColor: backgroundColorElement?.textContent || defaultSettings.backgroundColor,
-              secondaryColor: secondaryColorElement?.textContent || defaultSettings.secondaryColor,
-              tertiaryColor: tertiaryColorElement?.textContent || defaultSettings.tertiaryColor,
-              theme: (themeElement?.textContent as MermaidSettings['theme']) || defaultSettings.theme
-            };
-            
-            console.log('Settings loaded successfully:', loadedSettings);
-            return loadedSettings;
-          }
+        const loadedSettings = xmlContent && xmlContent.value ? parseSettingsXml(xmlContent.value) : null;
+        if (loadedSettings) {
+          console.log('Settings loaded successfully:', loadedSettings);
+          return loadedSettings;
         }
       } catch (error) {
         console.log('Error reading settings XML part:', error);
@@ -2426,45 +3870,10 @@ export const loadSettings = async (): Promise<MermaidSettings> => {
           const xmlContent = xmlPart.getXml();
           await context.sync();
           
-          if (xmlContent && xmlContent.value && xmlContent.value.includes('<MermaidSettings>')) {
-            const xmlDoc = new DOMParser().parseFromString(xmlContent.value, 'text/xml');
-            
-            // Check for parsing errors
-            const parserError = xmlDoc.querySelector('parsererror');
-            if (parserError) {
-              console.log('Settings XML parse error:', parserError.textContent);
-              continue;
-            }
-            
-            // Extract settings values
-            const fontFamilyElement = xmlDoc.querySelector('FontFamily');
-            const fontSizeElement = xmlDoc.querySelector('FontSize');
-            const primaryColorElement = xmlDoc.querySelector('PrimaryColor');
-            const primaryTextColorElement = xmlDoc.querySelector('PrimaryTextColor');
-            const primaryBorderColorElement = xmlDoc.querySelector('PrimaryBorderColor');
-            const lineColorElement = xmlDoc.querySelector('LineColor');
-            const backgroundColorElement = xmlDoc.querySelector('BackgroundColor');
-            const secondaryColorElement = xmlDoc.querySelector('SecondaryColor');
-            const tertiaryColorElement = xmlDoc.querySelector('TertiaryColor');
-            const themeElement = xmlDoc.querySelector('Theme');
-            
-            if (fontFamilyElement && fontSizeElement && primaryColorElement) {
-              const loadedSettings: MermaidSettings = {
-                fontFamily: fontFamilyElement.textContent || defaultSettings.fontFamily,
-                fontSize: parseInt(fontSizeElement.textContent || '16') || defaultSettings.fontSize,
-                primaryColor: primaryColorElement.textContent || defaultSettings.primaryColor,
-                primaryTextColor: primaryTextColorElement?.textContent || defaultSettings.primaryTextColor,
-                primaryBorderColor: primaryBorderColorElement?.textContent || defaultSettings.primaryBorderColor,
-                lineColor: lineColorElement?.textContent || defaultSettings.lineColor,
-                backgroundColor: backgroundColorElement?.textContent || defaultSettings.backgroundColor,
-                secondaryColor: secondaryColorElement?.textContent || defaultSettings.secondaryColor,
-                tertiaryColor: tertiaryColorElement?.textContent || defaultSettings.tertiaryColor,
-                theme: (themeElement?.textContent as MermaidSettings['theme']) || defaultSettings.theme
-              };
-              
-              console.log('Settings loaded successfully from Word:', loadedSettings);
-              return loadedSettings;
-            }
+          const loadedSettings = xmlContent && xmlContent.value ? parseSettingsXml(xmlContent.value) : null;
+          if (loadedSettings) {
+            console.log('Settings loaded successfully from Word:', loadedSettings);
+            return loadedSettings;
           }
         } catch (error) {
           console.log('Error reading settings XML part:', error);
@@ -2475,8 +3884,109 @@ export const loadSettings = async (): Promise<MermaidSettings> => {
       console.log('No settings found in Word, using defaults');
       return defaultSettings;
     });
+  } else if (platform === OfficePlatform.Excel) {
+    return Excel.run(async (context) => {
+      const customXmlParts = context.workbook.customXmlParts;
+      customXmlParts.load('items');
+      await context.sync();
+
+      for (let i = 0; i < customXmlParts.items.length; i++) {
+        const xmlPart = customXmlParts.items[i];
+        
+        try {
+          const xmlContent = xmlPart.getXml();
+          await context.sync();
+          
+          const loadedSettings = xmlContent && xmlContent.value ? parseSettingsXml(xmlContent.value) : null;
+          if (loadedSettings) {
+            console.log('Settings loaded successfully from Excel:', loadedSettings);
+            return loadedSettings;
+          }
+        } catch (error) {
+          console.log('Error reading settings XML part:', error);
+          continue;
+        }
+      }
+      
+      console.log('No settings found in Excel, using defaults');
+      return defaultSettings;
+    });
+  } else if (platform === OfficePlatform.Outlook) {
+    const xmlContent = Office.context.roamingSettings.get(OUTLOOK_SETTINGS_KEY);
+    const loadedSettings = typeof xmlContent === 'string' ? parseSettingsXml(xmlContent) : null;
+    if (loadedSettings) {
+      console.log('Settings loaded successfully from Outlook:', loadedSettings);
+      return loadedSettings;
+    }
+    
+    console.log('No settings found in Outlook, using defaults');
+    return defaultSettings;
   } else {
     console.log('Unsupported platform, using default settings');
     return defaultSettings;
   }
-};
\ No newline at end of file
+};
+
+// Per-user snippet libraries. Outlook roams them with the mailbox; the other hosts have no roaming
+// settings, so they keep the library in the add-in's local storage on this computer.
+const USER_SNIPPETS_KEY = 'mermaidSnippets';
+
+const userSnippetsStorageKey = (): string => {
+  // partitionKey keeps add-ins hosted at the same origin apart where the host provides one
+  const partitionKey = isOfficeContext ? Office.context.partitionKey : undefined;
+  return partitionKey ? `${partitionKey}${USER_SNIPPETS_KEY}` : USER_SNIPPETS_KEY;
+};
+
+// Snippet libraries each host can keep. Messages have no custom XML parts, so Outlook has no document library.
+export const availableSnippetScopes = (): SnippetScope[] => {
+  const platform = detectOfficePlatform();
+  return platform === OfficePlatform.Outlook || platform === OfficePlatform.Unknown ? ['user'] : ['document', 'user'];
+};
+
+export const loadSnippets = async (scope: SnippetScope): Promise<Snippet[]> => {
+  const platform = detectOfficePlatform();
+
+  if (scope === 'user') {
+    const xmlContent = platform === OfficePlatform.Outlook
+      ? Office.context.roamingSettings.get(USER_SNIPPETS_KEY)
+      : window.localStorage.getItem(userSnippetsStorageKey());
+    return (typeof xmlContent === 'string' ? parseSnippetsXml(xmlContent) : null) || [];
+  }
+
+  if (platform === OfficePlatform.PowerPoint) {
+    return PowerPoint.run(context => loadDocumentSnippets(context, context.presentation.customXmlParts));
+  } else if (platform === OfficePlatform.Word) {
+    return Word.run(context => loadDocumentSnippets(context, context.document.customXmlParts));
+  } else if (platform === OfficePlatform.Excel) {
+    return Excel.run(context => loadDocumentSnippets(context, context.workbook.customXmlParts));
+  } else {
+    throw new Error(`Document snippets are not supported in ${platform}`);
+  }
+};
+
+export const saveSnippets = async (scope: SnippetScope, snippets: Snippet[]): Promise<void> => {
+  const platform = detectOfficePlatform();
+
+  if (scope === 'user') {
+    const xmlContent = serializeSnippets(snippets);
+    if (platform === OfficePlatform.Outlook) {
+      const roamingSettings = Office.context.roamingSettings;
+      roamingSettings.set(USER_SNIPPETS_KEY, xmlContent);
+      await officeAsync<void>(callback => roamingSettings.saveAsync(callback));
+    } else {
+      window.localStorage.setItem(userSnippetsStorageKey(), xmlContent);
+    }
+    console.log(`Saved ${snippets.length} snippet(s) for the user`);
+    return;
+  }
+
+  if (platform === OfficePlatform.PowerPoint) {
+    return PowerPoint.run(context => saveDocumentSnippets(context, context.presentation.customXmlParts, snippets));
+  } else if (platform === OfficePlatform.Word) {
+    return Word.run(context => saveDocumentSnippets(context, context.document.customXmlParts, snippets));
+  } else if (platform === OfficePlatform.Excel) {
+    return Excel.run(context => saveDocumentSnippets(context, context.workbook.customXmlParts, snippets));
+  } else {
+    throw new Error(`Document snippets are not supported in ${platform}`);
+  }
+};
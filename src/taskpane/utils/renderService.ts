@@ -0,0 +1,196 @@
+// Client for the sandboxed renderer frame (src/renderer). Mermaid runs there instead of in the
+// task pane, so diagram content can't script the add-in, and a render that runs past its time limit
+// is stopped by replacing the frame. Where the browser gives the sandboxed frame its own process,
+// the task pane also stays responsive while large diagrams render.
+
+import type { MermaidConfig } from 'mermaid';
+import { RenderRequest, RendererMessage, deserializeRenderError } from '../../renderer/renderProtocol';
+import { MermaidSettings } from './powerPointUtils';
+import { sanitizeSvg } from './svgSanitizer';
+import { effectiveSecurityLevel } from './securityPolicy';
+
+const RENDERER_URL = 'renderer.html';
+const RENDERER_LOAD_TIMEOUT_MS = 15000;
+export const DEFAULT_RENDER_TIMEOUT_MS = 30000;
+
+export class RenderTimeoutError extends Error {
+  constructor(milliseconds: number) {
+    super(`Rendering took longer than ${milliseconds / 1000} seconds and was stopped`);
+    this.name = 'RenderTimeoutError';
+  }
+}
+
+interface PendingRender {
+  resolve: (svg: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+let frame: HTMLIFrameElement | null = null;
+let frameReady: Promise<HTMLIFrameElement> | null = null;
+let nextRequestId = 1;
+const pendingRenders = new Map<number, PendingRender>();
+let currentConfig: MermaidConfig = { startOnLoad: false };
+
+// Mermaid configuration for the user's theme and font settings
+export const mermaidConfigFromSettings = (settings: MermaidSettings): MermaidConfig => {
+  const mermaidConfig: MermaidConfig = {
+    startOnLoad: false,
+    theme: settings.theme === 'custom' ? 'base' : settings.theme,
+    securityLevel: effectiveSecurityLevel(settings.securityLevel),
+    fontFamily: settings.fontFamily
+  };
+
+  // Add theme variables for custom theme
+  if (settings.theme === 'custom') {
+    mermaidConfig.themeVariables = {
+      primaryColor: settings.primaryColor,
+      primaryTextColor: settings.primaryTextColor,
+      primaryBorderColor: settings.primaryBorderColor,
+      lineColor: settings.lineColor,
+      secondaryColor: settings.secondaryColor,
+      tertiaryColor: settings.tertiaryColor,
+      fontFamily: settings.fontFamily,
+      fontSize: `${settings.fontSize}px`,
+      
+      // Timeline-specific colors (use primary color for all timeline sections)
+      cScale0: settings.primaryColor,
+      cScale1: settings.secondaryColor,
+      cScale2: settings.tertiaryColor,
+      cScale3: settings.primaryColor,
+      cScale4: settings.secondaryColor,
+      cScale5: settings.tertiaryColor,
+      cScale6: settings.primaryColor,
+      cScale7: settings.secondaryColor,
+      cScale8: settings.tertiaryColor,
+      cScale9: settings.primaryColor,
+      cScale10: settings.secondaryColor,
+      cScale11: settings.tertiaryColor,
+      
+      // Timeline text colors
+      cScaleLabel0: settings.primaryTextColor,
+      cScaleLabel1: settings.primaryTextColor,
+      cScaleLabel2: settings.primaryTextColor,
+      cScaleLabel3: settings.primaryTextColor,
+      cScaleLabel4: settings.primaryTextColor,
+      cScaleLabel5: settings.primaryTextColor,
+      cScaleLabel6: settings.primaryTextColor,
+      cScaleLabel7: settings.primaryTextColor,
+      cScaleLabel8: settings.primaryTextColor,
+      cScaleLabel9: settings.primaryTextColor,
+      cScaleLabel10: settings.primaryTextColor,
+      cScaleLabel11: settings.primaryTextColor
+    };
+  }
+
+  return mermaidConfig;
+};
+
+// Configuration used by renders that don't pass their own, like mermaid.initialize
+export const configureRenderer = (config: MermaidConfig) => {
+  currentConfig = config;
+};
+
+const handleMessage = (event: MessageEvent) => {
+  if (!frame || event.source !== frame.contentWindow || !event.data) {
+    return;
+  }
+  const message = event.data as RendererMessage;
+  if (message.type === 'ready') {
+    return;
+  }
+
+  const pending = pendingRenders.get(message.requestId);
+  if (!pending) {
+    return; // Already timed out
+  }
+  pendingRenders.delete(message.requestId);
+  clearTimeout(pending.timer);
+
+  if (message.type === 'rendered') {
+    // Whatever the security level, the SVG the task pane keeps has no scripts or script URLs
+    try {
+      pending.resolve(sanitizeSvg(message.svg));
+    } catch (error) {
+      pending.reject(error as Error);
+    }
+  } else {
+    pending.reject(deserializeRenderError(message.error));
+  }
+};
+
+// Drop the frame, stopping whatever it is rendering. The next render starts a fresh one.
+const stopFrame = (reason: string) => {
+  window.removeEventListener('message', handleMessage);
+  if (frame) {
+    frame.remove();
+  }
+  frame = null;
+  frameReady = null;
+
+  pendingRenders.forEach(pending => {
+    clearTimeout(pending.timer);
+    pending.reject(new Error(reason));
+  });
+  pendingRenders.clear();
+};
+
+// The frame is laid out off screen rather than hidden - Mermaid measures text as it renders
+const startFrame = (): Promise<HTMLIFrameElement> => {
+  return new Promise((resolve, reject) => {
+    const newFrame = document.createElement('iframe');
+    newFrame.setAttribute('sandbox', 'allow-scripts');
+    newFrame.setAttribute('aria-hidden', 'true');
+    newFrame.tabIndex = -1;
+    newFrame.style.cssText = 'position:fixed;left:-10000px;top:0;width:1200px;height:900px;border:0';
+    newFrame.src = RENDERER_URL;
+
+    const loadTimer = setTimeout(() => {
+      window.removeEventListener('message', handleReady);
+      stopFrame('The diagram renderer did not load');
+      reject(new Error('The diagram renderer did not load'));
+    }, RENDERER_LOAD_TIMEOUT_MS);
+
+    const handleReady = (event: MessageEvent) => {
+      if (event.source === newFrame.contentWindow && event.data && event.data.type === 'ready') {
+        clearTimeout(loadTimer);
+        window.removeEventListener('message', handleReady);
+        resolve(newFrame);
+      }
+    };
+
+    frame = newFrame;
+    window.addEventListener('message', handleReady);
+    window.addEventListener('message', handleMessage);
+    document.body.appendChild(newFrame);
+  });
+};
+
+// Render Mermaid code to a sanitized SVG string in the sandboxed frame. Syntax errors are rethrown
+// shaped like Mermaid's own; a render past the time limit throws RenderTimeoutError.
+export const renderDiagram = async (code: string, options: { config?: MermaidConfig, timeout?: number } = {}): Promise<string> => {
+  if (!frameReady) {
+    frameReady = startFrame();
+  }
+  const readyFrame = await frameReady;
+  if (readyFrame !== frame) {
+    return renderDiagram(code, options); // Replaced while loading, after another render timed out
+  }
+  const timeout = options.timeout || DEFAULT_RENDER_TIMEOUT_MS;
+  const requestId = nextRequestId++;
+
+  return new Promise<string>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      pendingRenders.delete(requestId);
+      reject(new RenderTimeoutError(timeout));
+      stopFrame('The diagram renderer was restarted after a render timed out');
+    }, timeout);
+    pendingRenders.set(requestId, { resolve, reject, timer });
+
+    const request: RenderRequest = { type: 'render', requestId, code, config: options.config || currentConfig };
+    readyFrame.contentWindow!.postMessage(request, '*'); // An opaque origin can't be named as the target
+  });
+};
+
+// Show rendered SVG as an image, so nothing in it runs in the task pane
+export const svgImageSource = (svg: string): string => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
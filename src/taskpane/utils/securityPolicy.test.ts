@@ -0,0 +1,22 @@
+import { parseSecurityPolicy, isSecurityLevelAllowed, effectiveSecurityLevel } from './securityPolicy';
+
+describe('security policy', () => {
+  it('leaves the document level alone without a policy', () => {
+    const policy = parseSecurityPolicy({ minimumSecurityLevel: null });
+    expect(effectiveSecurityLevel('loose', policy)).toBe('loose');
+  });
+
+  it('only lets documents choose the minimum or stricter', () => {
+    const policy = parseSecurityPolicy({ minimumSecurityLevel: 'sandbox' });
+    expect(isSecurityLevelAllowed('strict', policy)).toBe(true);
+    expect(isSecurityLevelAllowed('sandbox', policy)).toBe(true);
+    expect(isSecurityLevelAllowed('antiscript', policy)).toBe(false);
+    expect(effectiveSecurityLevel('loose', policy)).toBe('sandbox');
+    expect(effectiveSecurityLevel('strict', policy)).toBe('strict');
+  });
+
+  it('enforces strict when the policy level is not recognised', () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    expect(parseSecurityPolicy({ minimumSecurityLevel: 'off' })).toEqual({ minimumSecurityLevel: 'strict' });
+  });
+});
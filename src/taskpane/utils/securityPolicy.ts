@@ -0,0 +1,44 @@
+// The organization's security policy, set by whoever builds and deploys the add-in in
+// src/taskpane/policy/securityPolicy.json. It is bundled at build time, so neither a document
+// nor the task pane can change it - unlike the level chosen in Settings, which is kept in the document.
+
+import policyFile from '../policy/securityPolicy.json';
+
+// Mermaid's securityLevel values
+export type MermaidSecurityLevel = 'strict' | 'sandbox' | 'antiscript' | 'loose';
+
+// Strictest first
+export const securityLevels: MermaidSecurityLevel[] = ['strict', 'sandbox', 'antiscript', 'loose'];
+
+export interface SecurityPolicy {
+  minimumSecurityLevel: MermaidSecurityLevel | null; // Documents render at least this strictly. Null for no policy
+}
+
+export const isSecurityLevel = (value: unknown): value is MermaidSecurityLevel => {
+  return securityLevels.includes(value as MermaidSecurityLevel);
+};
+
+// Read the policy file. A level that isn't recognised enforces strict rather than lifting the policy.
+export const parseSecurityPolicy = (data: unknown): SecurityPolicy => {
+  const level = (data as { minimumSecurityLevel?: unknown })?.minimumSecurityLevel;
+  if (level === undefined || level === null) {
+    return { minimumSecurityLevel: null };
+  }
+  if (!isSecurityLevel(level)) {
+    console.warn(`Security policy has an unknown minimumSecurityLevel "${level}" - enforcing strict`);
+    return { minimumSecurityLevel: 'strict' };
+  }
+  return { minimumSecurityLevel: level };
+};
+
+export const securityPolicy: SecurityPolicy = parseSecurityPolicy(policyFile);
+
+// Whether the policy allows a level: its minimum or anything stricter
+export const isSecurityLevelAllowed = (level: MermaidSecurityLevel, policy: SecurityPolicy = securityPolicy): boolean => {
+  return !policy.minimumSecurityLevel || securityLevels.indexOf(level) <= securityLevels.indexOf(policy.minimumSecurityLevel);
+};
+
+// The level diagrams render at: the document's, or the policy's minimum where the document's is looser
+export const effectiveSecurityLevel = (documentLevel: MermaidSecurityLevel, policy: SecurityPolicy = securityPolicy): MermaidSecurityLevel => {
+  return isSecurityLevelAllowed(documentLevel, policy) ? documentLevel : policy.minimumSecurityLevel!;
+};
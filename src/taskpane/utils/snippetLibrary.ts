@@ -0,0 +1,174 @@
+// Named pieces of Mermaid code people reuse across diagrams - a login flow, a service topology.
+// A library is kept either in the document, as a <MermaidSnippets> custom XML part, or per user.
+// Both use the same XML; libraries are shared between people as JSON files.
+
+import { CustomXmlPartLike, CustomXmlPartCollectionLike, SyncContext, escapeXml, escapeCData } from './diagramMetadata';
+
+export const SNIPPETS_NAMESPACE = 'http://schemas.accionlabs.com/mermaid-office-addin/snippets';
+
+// Format marker and version of exported snippet files
+const SNIPPET_FILE_FORMAT = 'mermaid-snippets';
+const SNIPPET_FILE_VERSION = 1;
+
+export interface Snippet {
+  name: string; // Unique within a library - saving under an existing name replaces that snippet
+  code: string;
+  updatedAt: string;
+}
+
+// Where a library is kept: in the open document, or with the user's add-in settings
+export type SnippetScope = 'document' | 'user';
+
+export const createSnippet = (name: string, code: string): Snippet => ({
+  name: name.trim(),
+  code,
+  updatedAt: new Date().toISOString()
+});
+
+const sortSnippets = (snippets: Snippet[]): Snippet[] => {
+  return [...snippets].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+// Add snippets to a library, replacing ones with the same name (ignoring case)
+export const mergeSnippets = (library: Snippet[], additions: Snippet[]): Snippet[] => {
+  const byName = new Map<string, Snippet>();
+  [...library, ...additions].forEach(snippet => byName.set(snippet.name.toLowerCase(), snippet));
+  return sortSnippets(Array.from(byName.values()));
+};
+
+export const removeSnippet = (library: Snippet[], name: string): Snippet[] => {
+  return library.filter(snippet => snippet.name.toLowerCase() !== name.toLowerCase());
+};
+
+export const serializeSnippets = (snippets: Snippet[]): string => {
+  const lines = [`<MermaidSnippets xmlns="${SNIPPETS_NAMESPACE}">`];
+  snippets.forEach(snippet => {
+    lines.push(`  <Snippet name="${escapeXml(snippet.name)}" updatedAt="${escapeXml(snippet.updatedAt)}"><Code><![CDATA[${escapeCData(snippet.code)}]]></Code></Snippet>`);
+  });
+  lines.push('</MermaidSnippets>');
+  return lines.join('\n');
+};
+
+// Parse a <MermaidSnippets> part. Returns null for parts that are not a snippet library.
+export const parseSnippetsXml = (xml: string): Snippet[] | null => {
+  if (!xml || !xml.includes('MermaidSnippets')) {
+    return null;
+  }
+
+  const xmlDoc = new DOMParser().parseFromString(xml, 'text/xml');
+  const root = xmlDoc.documentElement;
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0 || !root || root.localName !== 'MermaidSnippets') {
+    return null;
+  }
+
+  const snippets: Snippet[] = [];
+  Array.from(root.children)
+    .filter(element => element.localName === 'Snippet')
+    .forEach(element => {
+      const name = element.getAttribute('name');
+      const code = Array.from(element.children).find(child => child.localName === 'Code');
+      if (name && code) {
+        snippets.push({ name, code: code.textContent || '', updatedAt: element.getAttribute('updatedAt') || '' });
+      }
+    });
+  return sortSnippets(snippets);
+};
+
+const readSnippetParts = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>
+): Promise<{ part: TPart, snippets: Snippet[] }[]> => {
+  customXmlParts.load('items');
+  await context.sync();
+
+  const entries: { part: TPart, snippets: Snippet[] }[] = [];
+  for (let i = 0; i < customXmlParts.items.length; i++) {
+    const part = customXmlParts.items[i];
+    try {
+      const xml = part.getXml();
+      await context.sync();
+
+      const snippets = parseSnippetsXml(xml.value);
+      if (snippets) {
+        entries.push({ part, snippets });
+      }
+    } catch (error) {
+      // Skip parts we can't read
+      continue;
+    }
+  }
+  return entries;
+};
+
+export const loadDocumentSnippets = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>
+): Promise<Snippet[]> => {
+  const entries = await readSnippetParts(context, customXmlParts);
+  return entries.reduce<Snippet[]>((library, entry) => mergeSnippets(library, entry.snippets), []);
+};
+
+// Replace the document's snippet library - a single part holds the whole library
+export const saveDocumentSnippets = async <TPart extends CustomXmlPartLike>(
+  context: SyncContext,
+  customXmlParts: CustomXmlPartCollectionLike<TPart>,
+  snippets: Snippet[]
+): Promise<void> => {
+  const entries = await readSnippetParts(context, customXmlParts);
+  entries.forEach(entry => entry.part.delete());
+
+  if (snippets.length > 0) {
+    customXmlParts.add(serializeSnippets(snippets));
+  }
+  await context.sync();
+  console.log(`Saved ${snippets.length} snippet(s) in the document`);
+};
+
+export const exportSnippetsJson = (snippets: Snippet[]): string => {
+  return JSON.stringify({
+    format: SNIPPET_FILE_FORMAT,
+    version: SNIPPET_FILE_VERSION,
+    snippets: snippets.map(({ name, code }) => ({ name, code }))
+  }, null, 2);
+};
+
+// Read an exported snippet file. Throws with a message for the user when the file isn't one.
+export const parseSnippetsJson = (text: string): Snippet[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!data || data.format !== SNIPPET_FILE_FORMAT || !Array.isArray(data.snippets)) {
+    throw new Error('The file is not an exported snippet library');
+  }
+
+  const snippets = data.snippets
+    .filter((entry: any) => entry && typeof entry.name === 'string' && entry.name.trim() && typeof entry.code === 'string')
+    .map((entry: any) => createSnippet(entry.name, entry.code));
+  if (snippets.length === 0) {
+    throw new Error('The file has no snippets');
+  }
+  return mergeSnippets([], snippets);
+};
+
+// Text to insert for a snippet at a position: the snippet's common indentation is replaced by the
+// indentation of the line it goes into, and it starts on a new line when text precedes the cursor
+export const snippetInsertion = (code: string, textBeforeCursor: string): string => {
+  const lines = code.replace(/\s+$/, '').split('\n');
+  const indents = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => (line.match(/^[ \t]*/) as RegExpMatchArray)[0].length);
+  const commonIndent = indents.length > 0 ? Math.min(...indents) : 0;
+
+  const lineIndent = (textBeforeCursor.match(/^[ \t]*/) as RegExpMatchArray)[0];
+  const startsNewLine = textBeforeCursor.trim().length > 0;
+
+  const body = lines
+    .map(line => line.slice(commonIndent))
+    .map((line, index) => (index === 0 && !startsNewLine) || line.length === 0 ? line : lineIndent + line)
+    .join('\n');
+  return startsNewLine ? `\n${body}` : body;
+};
@@ -0,0 +1,92 @@
+// Strip anything executable or externally loaded from a rendered SVG before it leaves the
+// add-in - as a picture in a document, a PNG, a download or clipboard text. Mermaid's own
+// securityLevel decides what a diagram may contain; this pass is the backstop whatever the level.
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Elements that run script, embed other documents or load resources
+const BLOCKED_ELEMENTS = new Set([
+  'script', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+  'base', 'link', 'meta', 'form', 'input', 'button', 'textarea', 'select',
+  'audio', 'video', 'source', 'track', 'set', 'handler', 'listener'
+]);
+
+const URL_ATTRIBUTES = new Set(['href', 'xlink:href', 'src', 'action', 'formaction', 'data', 'poster']);
+
+// Links may point at web pages, mail addresses or within the SVG; images may also be inline data
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+const SAFE_IMAGE = /^(https?:|#|data:image\/(png|jpe?g|gif|webp);)/i;
+
+// Remove whitespace and control characters browsers ignore inside a URL scheme ("java\tscript:")
+const normalizeUrl = (value: string): string => value.replace(/[\u0000- \u007f-\u009f]/g, '');
+
+const isSafeUrl = (element: Element, value: string): boolean => {
+  const url = normalizeUrl(value);
+  if (url === '' || !/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return !url.startsWith('//'); // Relative references stay inside the document
+  }
+  return element.localName === 'image' || element.localName === 'img' ? SAFE_IMAGE.test(url) : SAFE_LINK.test(url);
+};
+
+// Keep url() references to markers and gradients within the SVG and to inline images only
+const sanitizeCss = (css: string): string => {
+  return css
+    .replace(/@import[^;]*;?/gi, '')
+    .replace(/expression\s*\(/gi, 'blocked(')
+    .replace(/url\(\s*(['"]?)(.*?)\1\s*\)/gi, (match, _quote, url: string) => {
+      return /^(#|data:image\/(png|jpe?g|gif|webp);)/i.test(normalizeUrl(url)) ? match : 'none';
+    });
+};
+
+const sanitizeElement = (element: Element) => {
+  Array.from(element.children).forEach(child => {
+    if (BLOCKED_ELEMENTS.has(child.localName.toLowerCase())) {
+      child.remove();
+      return;
+    }
+    // Animations can't retarget links, which could swap in a script URL after the checks below
+    const animated = (child.getAttribute('attributeName') || '').toLowerCase();
+    if (child.localName.startsWith('animate') && (URL_ATTRIBUTES.has(animated) || animated.startsWith('on'))) {
+      child.remove();
+      return;
+    }
+    sanitizeElement(child);
+  });
+
+  Array.from(element.attributes).forEach(attribute => {
+    const name = attribute.name.toLowerCase();
+    if (name.startsWith('on')) {
+      element.removeAttribute(attribute.name);
+    } else if (URL_ATTRIBUTES.has(name) && !isSafeUrl(element, attribute.value)) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'style') {
+      element.setAttribute(attribute.name, sanitizeCss(attribute.value));
+    }
+  });
+
+  if (element.localName === 'style' && element.textContent) {
+    element.textContent = sanitizeCss(element.textContent);
+  }
+};
+
+// Mermaid's output is normally well-formed XML; when it isn't (HTML void tags in labels),
+// read it as HTML and take the SVG element from there
+const parseSvg = (svg: string): Element | null => {
+  const xmlDoc = new DOMParser().parseFromString(svg, 'image/svg+xml');
+  if (!xmlDoc.querySelector('parsererror') && xmlDoc.documentElement.namespaceURI === SVG_NAMESPACE) {
+    return xmlDoc.documentElement;
+  }
+  const htmlDoc = new DOMParser().parseFromString(svg, 'text/html');
+  return htmlDoc.querySelector('svg');
+};
+
+// Return the SVG with scripts, event handlers, script URLs and external resources removed.
+// Throws when the input has no SVG element at all.
+export const sanitizeSvg = (svg: string): string => {
+  const root = parseSvg(svg);
+  if (!root) {
+    throw new Error('The diagram output is not a valid SVG');
+  }
+  sanitizeElement(root);
+  return new XMLSerializer().serializeToString(root);
+};
@@ -0,0 +1,57 @@
+// "Figure N: title" captions for Word diagrams and the table of figures that lists them.
+// The figure number is a SEQ Figure field, so Word numbers Mermaid diagrams together with
+// any other figure captions in the document.
+
+import { WORDPROCESSINGML_NAMESPACE } from './wordPageGeometry';
+import { escapeXml } from './diagramMetadata';
+
+export const CAPTION_LABEL = 'Figure';
+
+// The caption title sits in a content control tagged with the diagram ID, so updates
+// can find it and replace only the title, leaving the label and number alone
+const CAPTION_TAG_PREFIX = 'MERMAID_CAPTION:';
+
+export const captionTag = (diagramId: string): string => `${CAPTION_TAG_PREFIX}${diagramId}`;
+
+// Wrap the body of one paragraph in the minimal flat OPC package Range.insertOoxml accepts
+const ooxmlPackage = (paragraphContent: string): string => {
+  return `<pkg:package xmlns:pkg="http://schemas.microsoft.com/office/2006/xmlPackage">
+  <pkg:part pkg:name="/_rels/.rels" pkg:contentType="application/vnd.openxmlformats-package.relationships+xml">
+    <pkg:xmlData>
+      <Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+        <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+      </Relationships>
+    </pkg:xmlData>
+  </pkg:part>
+  <pkg:part pkg:name="/word/document.xml" pkg:contentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml">
+    <pkg:xmlData>
+      <w:document xmlns:w="${WORDPROCESSINGML_NAMESPACE}">
+        <w:body><w:p>${paragraphContent}</w:p></w:body>
+      </w:document>
+    </pkg:xmlData>
+  </pkg:part>
+</pkg:package>`;
+};
+
+// A simple field marked dirty so Word calculates it, showing the placeholder text until then
+const simpleField = (instruction: string, placeholder: string): string => {
+  return `<w:fldSimple w:instr="${escapeXml(instruction)}" w:dirty="true"><w:r><w:t>${escapeXml(placeholder)}</w:t></w:r></w:fldSimple>`;
+};
+
+const textRun = (text: string): string => `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+// "Figure {SEQ Figure}: " - the title is added after it as a tagged content control
+export const buildCaptionLabelOoxml = (): string => {
+  return ooxmlPackage(
+    textRun(`${CAPTION_LABEL} `) +
+    simpleField(` SEQ ${CAPTION_LABEL} \\* ARABIC `, '1') +
+    textRun(': ')
+  );
+};
+
+// A TOC field over the figure captions, with hyperlinked entries
+export const buildTableOfFiguresOoxml = (): string => {
+  return ooxmlPackage(
+    simpleField(` TOC \\h \\z \\c "${CAPTION_LABEL}" `, 'Update this field (F9) to list the figures in the document.')
+  );
+};
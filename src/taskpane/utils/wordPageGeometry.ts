@@ -0,0 +1,106 @@
+// Page geometry of a Word section, read from the <w:sectPr> in a range's OOXML.
+// The page setup API isn't available in the Word requirement sets we target, but
+// Range.getOoxml (WordApi 1.1) includes the section properties of the range.
+
+export const WORDPROCESSINGML_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const TWIPS_PER_POINT = 20;
+
+// Word's default spacing between text columns (0.5")
+const DEFAULT_COLUMN_SPACING_TWIPS = 720;
+
+// All values in points
+export interface PageGeometry {
+  pageWidth: number;
+  pageHeight: number;
+  marginLeft: number;
+  marginRight: number;
+  marginTop: number;
+  marginBottom: number;
+  columnWidth: number; // Width of one text column - the page width between margins for single-column sections
+  source: 'document' | 'default';
+}
+
+// US Letter (8.5" x 11") with 1" margins, used when the section can't be read
+export const DEFAULT_PAGE_GEOMETRY: PageGeometry = {
+  pageWidth: 612,
+  pageHeight: 792,
+  marginLeft: 72,
+  marginRight: 72,
+  marginTop: 72,
+  marginBottom: 72,
+  columnWidth: 468,
+  source: 'default'
+};
+
+const twipsAttribute = (element: Element | undefined, name: string): number | null => {
+  if (!element) {
+    return null;
+  }
+  const value = parseInt(element.getAttributeNS(WORDPROCESSINGML_NAMESPACE, name) || element.getAttribute(`w:${name}`) || '');
+  return isNaN(value) ? null : value;
+};
+
+const firstChild = (parent: Element, localName: string): Element | undefined => {
+  return parent.getElementsByTagNameNS(WORDPROCESSINGML_NAMESPACE, localName)[0];
+};
+
+// Returns null when the OOXML has no usable section properties
+export const parseSectionGeometry = (ooxml: string): PageGeometry | null => {
+  const xmlDoc = new DOMParser().parseFromString(ooxml, 'text/xml');
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+
+  // The range's own section is the last sectPr in the package
+  const sections = xmlDoc.getElementsByTagNameNS(WORDPROCESSINGML_NAMESPACE, 'sectPr');
+  if (sections.length === 0) {
+    return null;
+  }
+  const sectPr = sections[sections.length - 1];
+
+  const pageSize = firstChild(sectPr, 'pgSz');
+  const pageMargins = firstChild(sectPr, 'pgMar');
+  const pageWidth = twipsAttribute(pageSize, 'w');
+  const pageHeight = twipsAttribute(pageSize, 'h');
+  if (!pageWidth || !pageHeight) {
+    return null;
+  }
+
+  // Top and bottom margins are negative when the header/footer may overlap the text
+  const marginLeft = twipsAttribute(pageMargins, 'left') ?? 1440;
+  const marginRight = twipsAttribute(pageMargins, 'right') ?? 1440;
+  const marginTop = Math.abs(twipsAttribute(pageMargins, 'top') ?? 1440);
+  const marginBottom = Math.abs(twipsAttribute(pageMargins, 'bottom') ?? 1440);
+  const textWidth = pageWidth - marginLeft - marginRight;
+
+  let columnWidth = textWidth;
+  const columns = firstChild(sectPr, 'cols');
+  const columnCount = twipsAttribute(columns, 'num') ?? 1;
+  if (columns && columnCount > 1) {
+    const explicitColumns = columns.getElementsByTagNameNS(WORDPROCESSINGML_NAMESPACE, 'col');
+    if (explicitColumns.length > 0) {
+      // Unequal columns - size for the narrowest so the diagram fits whichever it lands in
+      const widths = Array.from(explicitColumns)
+        .map(column => twipsAttribute(column, 'w'))
+        .filter((width): width is number => width !== null && width > 0);
+      if (widths.length > 0) {
+        columnWidth = Math.min(...widths);
+      }
+    } else {
+      const spacing = twipsAttribute(columns, 'space') ?? DEFAULT_COLUMN_SPACING_TWIPS;
+      columnWidth = (textWidth - spacing * (columnCount - 1)) / columnCount;
+    }
+  }
+
+  return {
+    pageWidth: pageWidth / TWIPS_PER_POINT,
+    pageHeight: pageHeight / TWIPS_PER_POINT,
+    marginLeft: marginLeft / TWIPS_PER_POINT,
+    marginRight: marginRight / TWIPS_PER_POINT,
+    marginTop: marginTop / TWIPS_PER_POINT,
+    marginBottom: marginBottom / TWIPS_PER_POINT,
+    columnWidth: Math.max(columnWidth, 1) / TWIPS_PER_POINT,
+    source: 'document'
+  };
+};
@@ -5,7 +5,8 @@ const path = require('path');
 module.exports = {
   entry: {
     taskpane: './src/taskpane/taskpane.tsx',
-    commands: './src/commands/commands.ts'
+    commands: './src/commands/commands.ts',
+    renderer: './src/renderer/renderer.ts'
   },
   resolve: {
     extensions: ['.ts', '.tsx', '.js', '.jsx']
@@ -34,10 +35,16 @@ module.exports = {
       filename: 'commands.html',
       chunks: ['commands']
     }),
+    new HtmlWebpackPlugin({
+      template: './src/renderer/renderer.html',
+      filename: 'renderer.html',
+      chunks: ['renderer']
+    }),
     new CopyWebpackPlugin({
       patterns: [
         { from: './assets', to: 'assets', noErrorOnMissing: true },
         { from: './manifest.xml', to: 'manifest.xml' },
+        { from: './manifest-outlook.xml', to: 'manifest-outlook.xml' },
         { from: './sideload.html', to: 'sideload.html' },
         { from: './test-cert.html', to: 'test-cert.html' }
       ]